@@ -1,5 +1,6 @@
 /// <reference types="bun-types" />
 import fs from "fs";
+import path from "path";
 import { dependencies, peerDependencies } from "./package.json";
 
 // Create build folder if not exist
@@ -26,6 +27,33 @@ console.log("Building ESM bundle...");
 
   console.log("ESM bundle completed!");
 
+  console.log("Building browser bundle...");
+
+  // Build browser bundle, `ws` is resolved to its browser stub since the native WebSocket is used instead,
+  // and the file system module to its browser replacement
+  await Bun.build({
+    entrypoints: ["./index.ts"],
+    external: Object.keys(peerDependencies || {}),
+    format: "esm",
+    minify: false,
+    outdir: "./build",
+    naming: "browser.js",
+    sourcemap: "external",
+    target: "browser",
+    plugins: [
+      {
+        name: "browser-node-fs",
+        setup(build) {
+          build.onResolve({ filter: /\/node-fs$/ }, (args) => ({
+            path: path.resolve(path.dirname(args.importer), "node-fs.browser.ts")
+          }));
+        }
+      }
+    ]
+  });
+
+  console.log("Browser bundle completed!");
+
   // Copy TypeScript declaration files using tsc
   console.log("Generating TypeScript declarations...");
 
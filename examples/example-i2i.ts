@@ -52,16 +52,6 @@ const exampleTomImg = "https://www.redwolf.in/image/cache/catalog/stickers/tom-f
 const downloadImg = await fetch(exampleTomImg);
 const imgBlob = await downloadImg.blob();
 
-/**
- * Upload the source image to ComfyUI server
- */
-const uploadedImg = await api.uploadImage(imgBlob, "tom-face-sticker-india.jpg");
-if (!uploadedImg) {
-  throw new Error("Failed to upload image");
-} else {
-  console.log("Uploaded source image", uploadedImg.url);
-}
-
 /**
  * Set the workflow's input values
  */
@@ -73,7 +63,10 @@ const workflow = Img2ImgPrompt.input(
    */
   api.osType
 )
-  .input("sourceImg", uploadedImg.info.filename)
+  /**
+   * The image is uploaded to the server right before the prompt is queued
+   */
+  .input("sourceImg", PromptBuilder.binary(imgBlob, "tom-face-sticker-india.jpg"))
   .input("seed", seed())
   .input("difference", 0.6)
   .input("step", 4)
@@ -1,15 +1,92 @@
 export { ComfyApi } from "./src/client";
 export { CallWrapper } from "./src/call-wrapper";
 export { ComfyPool, EQueueMode } from "./src/pool";
-export { PromptBuilder } from "./src/prompt-builder";
+export { PromptBuilder, TPromptUpload } from "./src/prompt-builder";
+export {
+  TOutputAsset,
+  TOutputContent,
+  TOutputDownloadOptions,
+  TOutputFormat,
+  TOutputSaveOptions,
+  TSavedOutputAsset
+} from "./src/output-resolver";
 
 export { TSamplerName, TSchedulerName } from "./src/types/sampler";
+export {
+  BasicCredentials,
+  BearerTokenCredentials,
+  BinaryInput,
+  CredentialsProvider,
+  CustomCredentials,
+  FetchContext,
+  FetchFunction,
+  FetchInterceptor,
+  FetchOptions,
+  JobTimeouts,
+  LivenessPolicy,
+  NodeDefsCachePolicy,
+  QueueItem,
+  RawQueueItem,
+  ReconnectPolicy,
+  RequestOptions,
+  RetryPolicy
+} from "./src/types/api";
+export * from "./src/types/error";
+export {
+  TComfyAPIEventMap,
+  TConnectionState,
+  TDisconnect,
+  TDisconnectReason,
+  TEventKey,
+  TJobEvent,
+  TPreviewMeta,
+  TPreviewMetadata,
+  TProgressText,
+  TResynced,
+  TStateChange,
+  TUnknownMessage
+} from "./src/types/event";
+export {
+  PROTOCOL_VERSION,
+  SERVER_MESSAGE_GUARDS,
+  TEventStatus,
+  TExecuted,
+  TExecuting,
+  TExecution,
+  TExecutionCached,
+  TExecutionError,
+  TExecutionInterrupted,
+  TFeatureFlags,
+  TLogEntry,
+  TLogs,
+  TNodeProgressState,
+  TProgress,
+  TProgressState,
+  TServerMessage,
+  TServerMessageMap,
+  TServerMessageType,
+  isServerMessage,
+  isServerMessageOf,
+  isServerMessageType
+} from "./src/types/protocol";
+export { ExecutionTrace, TChromeTraceEvent, TErrorTrace, TNodeTrace } from "./src/execution-trace";
+export { TWorkflowProgress } from "./src/workflow-progress";
+export {
+  BROADCAST_EVENTS,
+  PROMPT_EVENTS,
+  TBroadcastEventKey,
+  TPromptDispatcherKey,
+  TPromptEventKey,
+  TPromptEventMap,
+  TPromptQueueCheck
+} from "./src/prompt-dispatcher";
+export { TWebSocketAuthMode, WebSocketClient, WebSocketInterface } from "./src/socket";
 
 /**
  * Polyfill for CustomEvent in old NodeJS versions
  */
 if (typeof CustomEvent === "undefined") {
-  (global as any).CustomEvent = class CustomEvent extends Event {
+  (globalThis as any).CustomEvent = class CustomEvent extends Event {
     detail: any;
     constructor(event: any, params: any = {}) {
       super(event, params);
@@ -1,7 +1,19 @@
-import { NodeData, NodeDef, NodeProgress } from "./types/api";
+import { BinaryInput, HistoryEntry, JobTimeouts, NodeData, NodeDef, NodeProgress, QueueResponse } from "./types/api";
 import { ComfyApi } from "./client";
-import { PromptBuilder } from "./prompt-builder";
-import { TExecutionCached } from "./types/event";
+import { PromptBuilder, TPromptUpload } from "./prompt-builder";
+import {
+  OutputResolver,
+  TOutputAsset,
+  TOutputDownloadOptions,
+  TOutputFormat,
+  TOutputSaveOptions,
+  TOutputSource,
+  TSavedOutputAsset
+} from "./output-resolver";
+import { ExecutionTrace } from "./execution-trace";
+import { readFile } from "./node-fs";
+import { NodeTimingHistory, TWorkflowProgress, WorkflowProgressTracker } from "./workflow-progress";
+import { TExecution, TExecutionCached, TJobEvent } from "./types/event";
 import {
   FailedCacheError,
   WentMissingError,
@@ -10,7 +22,9 @@ import {
   CustomEventError,
   ExecutionFailedError,
   ExecutionInterruptedError,
-  MissingNodeError
+  MissingNodeError,
+  ComfyHttpError,
+  JobTimeoutError
 } from "./types/error";
 
 /**
@@ -18,10 +32,26 @@ import {
  * Provides methods for setting callback functions and executing the job.
  */
 export class CallWrapper<I extends string, O extends string, T extends NodeData> {
+  /**
+   * Node timing history of each client, shared by their jobs to estimate the workflow progress.
+   */
+  private static timingHistories = new WeakMap<ComfyApi, NodeTimingHistory>();
+
   private client: ComfyApi;
   private prompt: PromptBuilder<I, O, T>;
   private started = false;
+  private running = false;
+  private cancelled = false;
   private promptId?: string;
+  private abortJob?: (error: Error) => void;
+  /**
+   * Set when the job is given up before its tracking started, e.g. by a stream closed early.
+   */
+  private detachError?: Error;
+  private lastError?: Error;
+  private queuedWorkflow?: NodeData;
+  private trace = new ExecutionTrace();
+  private streamListeners = new Set<(event: TJobEvent) => void>();
   private output: Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> = {} as any;
 
   private onPreviewFn?: (ev: Blob, promptId?: string) => void;
@@ -44,9 +74,11 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
   ) => void;
   private onFailedFn?: (err: Error, promptId?: string) => void;
   private onProgressFn?: (info: NodeProgress, promptId?: string) => void;
+  private onWorkflowProgressFn?: (info: TWorkflowProgress, promptId?: string) => void;
 
   private onDisconnectedHandlerOffFn: any;
   private checkExecutingOffFn: any;
+  private checkExecutionStartOffFn: any;
   private checkExecutedOffFn: any;
   private progressHandlerOffFn: any;
   private previewHandlerOffFn: any;
@@ -55,6 +87,12 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
   private executionEndSuccessOffFn: any;
   private statusHandlerOffFn: any;
   private interruptionHandlerOffFn: any;
+  private workflowProgressOffFn: any;
+  private traceOffFn: any;
+  private watchdogOffFn: any;
+  private watchdogStartFn?: () => void;
+  private resyncJob?: (queue: QueueResponse) => Promise<void>;
+  private workflowProgress?: WorkflowProgressTracker;
 
   /**
    * Constructs a new CallWrapper instance.
@@ -69,6 +107,7 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
 
   /**
    * Set the callback function to be called when a preview event occurs.
+   * Only the previews of this job are forwarded.
    *
    * @param fn - The callback function to be called. It receives a Blob object representing the event and an optional promptId string.
    * @returns The current instance of the CallWrapper.
@@ -158,62 +197,338 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
     return this;
   }
 
+  /**
+   * Set a callback function to be called with the progress of the whole workflow: the overall fraction done
+   * and an estimated remaining time, based on the nodes that will run and the timing of previous jobs.
+   *
+   * @param fn - The callback function to be called with the workflow progress.
+   * @returns The current instance of the CallWrapper.
+   */
+  onWorkflowProgress(fn: (info: TWorkflowProgress, promptId?: string) => void) {
+    this.onWorkflowProgressFn = fn;
+    return this;
+  }
+
+  /**
+   * Returns the timeline of the last run: when the prompt was queued and started, the start and end of each
+   * executed node, the cached nodes and the errors. Use `toChromeTrace()` on it to open the run in a trace viewer.
+   */
+  getTrace(): ExecutionTrace {
+    return this.trace;
+  }
+
+  /**
+   * Cancels the job. A pending job is removed from the queue, a running job is interrupted
+   * without affecting the other prompts of the server.
+   * `onFailed` receives an `ExecutionInterruptedError` and `run` resolves to `false`.
+   * Does nothing when no run is in flight.
+   */
+  async cancel(): Promise<void> {
+    if (!this.running || this.cancelled) return;
+    this.cancelled = true;
+    const abortJob = this.abortJob;
+    // Not queued yet, `run` cancels it once queued. Or already done.
+    if (!this.promptId || !abortJob) return;
+    this.cleanupListeners();
+    try {
+      await this.removeFromServer(this.promptId);
+    } finally {
+      abortJob(new ExecutionInterruptedError("The job was cancelled"));
+    }
+  }
+
   /**
    * Run the call wrapper and returns the output of the executed job.
    * If the job is already cached, it returns the cached output.
    * If the job is not cached, it executes the job and returns the output.
    *
+   * @param options.signal - Cancels the job when aborted, see `cancel`.
+   * @param options.timeouts - Watchdog timeouts of the queue wait, the execution and the idle time between events.
+   *        When one expires the history is checked, then the job fails with a `JobTimeoutError`.
    * @returns A promise that resolves to the output of the executed job,
    *          or `undefined` if the job is not found,
    *          or `false` if the job execution fails.
    */
-  async run(): Promise<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | undefined | false> {
+  async run(options?: {
+    signal?: AbortSignal;
+    timeouts?: JobTimeouts;
+  }): Promise<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | undefined | false> {
+    return this.withSignal(options?.signal, () => this.runJob(options?.timeouts));
+  }
+
+  /**
+   * Runs the job like `run`, but rejects with the reason of the failure instead of resolving to `false`.
+   * Callbacks such as `onFailed` are still called.
+   *
+   * @param options.signal - Cancels the job when aborted, see `cancel`.
+   * @param options.timeouts - Watchdog timeouts of the job, see `run`.
+   * @returns A promise that resolves to the output of the executed job.
+   * @throws {CallWrapperError} The failure of the job, e.g. `EnqueueFailedError`, `ExecutionFailedError`,
+   *         `ExecutionInterruptedError`, `WentMissingError`, `JobTimeoutError` or `CustomEventError` for errors
+   *         raised by nodes.
+   */
+  async execute(options?: {
+    signal?: AbortSignal;
+    timeouts?: JobTimeouts;
+  }): Promise<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any>> {
+    this.lastError = undefined;
+    const output = await this.run(options);
+    if (!output) {
+      throw this.lastError ?? new ExecutionFailedError("Execution failed");
+    }
+    return output;
+  }
+
+  /**
+   * Runs the job and yields its lifecycle events, ending after the `finished` or `failed` event.
+   * Callbacks such as `onFinished` are still called.
+   *
+   * Stopping the iteration before the run ends detaches the wrapper from the client events and fails the run with an
+   * `ExecutionInterruptedError`, the job itself keeps running on the server, use `cancel` to stop it.
+   *
+   * @param options.signal - Cancels the job when aborted, see `cancel`.
+   * @param options.timeouts - Watchdog timeouts of the job, see `run`.
+   */
+  async *stream(options?: {
+    signal?: AbortSignal;
+    timeouts?: JobTimeouts;
+  }): AsyncGenerator<TJobEvent<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any>>, void, undefined> {
+    const events: TJobEvent[] = [];
+    let wake: (() => void) | undefined;
+    let done = false;
+    // The run is settled once it emits its last event, even if it hasn't returned yet
+    let ended = false;
+    const listener = (event: TJobEvent) => {
+      ended ||= event.type === "finished" || event.type === "failed";
+      events.push(event);
+      wake?.();
+    };
+    this.streamListeners.add(listener);
+    this.run(options)
+      .catch((error) => listener({ type: "failed", promptId: this.promptId, error }))
+      .finally(() => {
+        done = true;
+        wake?.();
+      });
+    try {
+      while (true) {
+        const event = events.shift();
+        if (event) {
+          yield event;
+          if (event.type === "finished" || event.type === "failed") return;
+        } else if (done) {
+          return;
+        } else {
+          await new Promise<void>((resolve) => (wake = resolve));
+          wake = undefined;
+        }
+      }
+    } finally {
+      this.streamListeners.delete(listener);
+      if (!done && !ended) {
+        // Settle the run so its listeners are removed
+        const error = new ExecutionInterruptedError("The stream was closed before the end of the job");
+        if (this.abortJob) {
+          this.abortJob(error);
+        } else {
+          this.cleanupListeners();
+          this.detachError = error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Resumes tracking a prompt queued earlier, for example by a previous process, and returns its output like `run`.
+   * The prompt is looked up in the queue and the history, so an already finished prompt resolves right away.
+   *
+   * The server only sends the execution events to the client id that queued the prompt. A prompt queued by
+   * another client id is polled from the queue and the history on every `status` message instead: its start
+   * and its outputs still reach `onOutput`, the trace and the watchdog, but there is no progress or preview,
+   * so use an `idle` timeout longer than the job.
+   *
+   * @param promptId - The ID of the queued prompt, it must have been queued from the same workflow.
+   * @param options.signal - Cancels the job when aborted, see `cancel`.
+   * @param options.timeouts - Watchdog timeouts of the job, see `run`.
+   * @returns A promise that resolves to the output of the job, or `false` if the job fails or is not found.
+   */
+  async attach(
+    promptId: string,
+    options?: {
+      signal?: AbortSignal;
+      timeouts?: JobTimeouts;
+    }
+  ): Promise<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | undefined | false> {
+    return this.withSignal(options?.signal, () => {
+      this.resetRun();
+      this.trace.attached(promptId);
+      this.promptId = promptId;
+      this.watchDisconnection(promptId);
+      return this.trackJob(promptId, true, options?.timeouts);
+    });
+  }
+
+  /**
+   * Downloads the files and texts of the output of a job, e.g. the images of a `SaveImage` node.
+   *
+   * @param output - The output returned by `run`, `execute` or `attach`.
+   * @param options - Concurrency, the fields to resolve and the format of the content (`blob`, `buffer` or `stream`).
+   * @returns The assets with their output key, node id, mime type and source `ImageInfo`.
+   */
+  async downloadOutputs<F extends TOutputFormat = "blob">(
+    output: Partial<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any>>,
+    options?: TOutputDownloadOptions<F>
+  ): Promise<TOutputAsset<F>[]> {
+    return new OutputResolver(this.client).download(this.toOutputSources(output), options);
+  }
+
+  /**
+   * Writes the files and texts of the output of a job into a directory, only available in NodeJS.
+   *
+   * @param output - The output returned by `run`, `execute` or `attach`.
+   * @param dir - The directory to write into, created if missing.
+   * @param options - Concurrency, the fields to resolve and the naming `pattern` of the files, e.g. `{key}_{index}{ext}`.
+   * @returns The written assets with their path.
+   */
+  async saveOutputs(
+    output: Partial<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any>>,
+    dir: string,
+    options?: TOutputSaveOptions
+  ): Promise<TSavedOutputAsset[]> {
+    return new OutputResolver(this.client).save(dir, this.toOutputSources(output), options);
+  }
+
+  /**
+   * Runs the job, cancelling it when the signal aborts.
+   */
+  private async withSignal<R>(signal: AbortSignal | undefined, fn: () => Promise<R>): Promise<R | false> {
+    if (signal?.aborted) {
+      this.fail(new ExecutionInterruptedError("The job was cancelled", { cause: signal.reason }));
+      return false;
+    }
+    this.running = true;
+    this.cancelled = false;
+    this.detachError = undefined;
+    const onAbort = () => this.cancel().catch(() => {});
+    signal?.addEventListener("abort", onAbort, { once: true });
+    try {
+      return await fn();
+    } finally {
+      this.running = false;
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Clears the state of the previous run, so a reused wrapper starts over.
+   */
+  private resetRun() {
+    this.trace = new ExecutionTrace();
+    this.started = false;
+    this.output = {} as Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any>;
+    this.promptId = undefined;
+    this.queuedWorkflow = undefined;
+    this.workflowProgress = undefined;
+  }
+
+  private async runJob(
+    timeouts?: JobTimeouts
+  ): Promise<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | undefined | false> {
+    this.resetRun();
     /**
      * Start the job execution.
      */
     const job = await this.enqueueJob();
     if (!job) {
-      this.onFailedFn?.(new Error("Failed to queue prompt"));
+      // Failures to queue are reported by `enqueueJob`
+      if (this.cancelled) {
+        this.fail(new ExecutionInterruptedError("The job was cancelled"));
+      }
+      return false;
+    }
+    if (this.cancelled) {
+      // Cancelled while the prompt was being queued
+      this.cleanupListeners();
+      await this.removeFromServer(job.prompt_id).catch(() => {});
+      this.fail(new ExecutionInterruptedError("The job was cancelled"), job.prompt_id);
       return false;
     }
 
+    return this.trackJob(job.prompt_id, false, timeouts);
+  }
+
+  /**
+   * Follows the execution of a queued prompt until it finishes.
+   *
+   * @param promptId - The ID of the queued prompt.
+   * @param attached - Whether the prompt was queued earlier, so it might already be running or done.
+   * @param timeouts - Watchdog timeouts of the job.
+   */
+  private async trackJob(
+    promptId: string,
+    attached: boolean,
+    timeouts?: JobTimeouts
+  ): Promise<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | false> {
+    const job = { prompt_id: promptId };
+
     let promptLoadTrigger!: (value: boolean) => void;
     const promptLoadCached: Promise<boolean> = new Promise((resolve) => {
       promptLoadTrigger = resolve;
     });
 
+    let settled = false;
     let jobDoneTrigger!: (value: Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | false) => void;
     const jobDonePromise: Promise<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | false> =
       new Promise((resolve) => {
-        jobDoneTrigger = resolve;
+        jobDoneTrigger = (value) => {
+          settled = true;
+          resolve(value);
+        };
       });
 
+    this.abortJob = (error) => {
+      if (settled) return;
+      promptLoadTrigger(false);
+      this.cleanupListeners();
+      this.fail(error, job.prompt_id);
+      jobDoneTrigger(false);
+    };
+    if (this.detachError) {
+      this.abortJob(this.detachError);
+      this.detachError = undefined;
+      return jobDonePromise;
+    }
+
     /**
      * Declare the function to check if the job is executing.
      */
-    const checkExecutingFn = (event: CustomEvent) => {
-      if (event.detail && event.detail.prompt_id === job.prompt_id) {
-        promptLoadTrigger(false);
-      }
+    const checkExecutingFn = () => {
+      this.markStarted(promptId);
+      promptLoadTrigger(false);
     };
     /**
      * Declare the function to check if the job is cached.
      */
     const checkExecutionCachedFn = (event: CustomEvent<TExecutionCached>) => {
       const outputNodes = Object.values(this.prompt.mapOutputKeys).filter((n) => !!n) as string[];
-      if (event.detail.nodes.length > 0 && event.detail.prompt_id === job.prompt_id) {
+      if (event.detail.nodes.length > 0) {
         /**
          * Cached is true if all output nodes are included in the cached nodes.
          */
         const cached = outputNodes.every((node) => event.detail.nodes.includes(node));
+        this.emit({ type: "cached", promptId, nodes: event.detail.nodes });
         promptLoadTrigger(cached);
       }
     };
     /**
-     * Listen to the executing event.
+     * Listen to the executing event, and to the execution start for clients without a WebSocket.
      */
-    this.checkExecutingOffFn = this.client.on("executing", checkExecutingFn);
-    this.checkExecutedOffFn = this.client.on("execution_cached", checkExecutionCachedFn);
+    this.checkExecutingOffFn = this.client.onPrompt(promptId, "executing", checkExecutingFn);
+    this.checkExecutionStartOffFn = this.client.onPrompt(promptId, "execution_start", checkExecutingFn);
+    this.checkExecutedOffFn = this.client.onPrompt(promptId, "execution_cached", checkExecutionCachedFn);
+    // After the job listeners, so the workflow progress follows the job events it comes from
+    this.workflowProgressOffFn = this.handleWorkflowProgress(promptId);
+    this.traceOffFn = this.handleTrace(promptId);
 
     // race condition handling
     let wentMissing = false;
@@ -222,25 +537,24 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
       false | Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | null
     > = Promise.resolve(null);
 
-    const statusHandler = async () => {
-      const queue = await this.client.getQueue();
-      const queueItems = [...queue.queue_pending, ...queue.queue_running];
-      for (const queueItem of queueItems) {
-        if (queueItem[1] === job.prompt_id) {
-          return;
-        }
-      }
-
+    /**
+     * The prompt left the queue: it finished, possibly before its events were listened to, or it was removed.
+     */
+    const dequeuedHandler = async () => {
       await cachedOutputPromise;
-      if (cachedOutputDone) {
+      if (cachedOutputDone || settled) {
         return;
       }
 
-      const output = await this.handleCachedOutput(job.prompt_id);
+      const output = await this.handleCachedOutput(job.prompt_id, () => settled);
+      if (settled) {
+        return;
+      }
 
       wentMissing = true;
 
       if (output) {
+        promptLoadTrigger(false);
         jobDoneTrigger(output);
         this.cleanupListeners();
         return;
@@ -249,20 +563,95 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
       promptLoadTrigger(false);
       jobDoneTrigger(false);
       this.cleanupListeners();
-      this.onFailedFn?.(new WentMissingError("The job went missing!"), job.prompt_id);
+      // The job may have ended before its execution events were listened to
+      const history = output === null ? await this.client.getHistory(job.prompt_id).catch(() => undefined) : undefined;
+      this.fail(
+        (history && this.historyError(history)) || new WentMissingError("The job went missing!"),
+        job.prompt_id
+      );
     };
 
-    this.statusHandlerOffFn = this.client.on("status", statusHandler);
+    // The queue is checked once per status message for every tracked prompt
+    this.statusHandlerOffFn = this.client.onPrompt(promptId, "dequeued", () => {
+      // A failed history request is retried on the next status message
+      dequeuedHandler().catch(() => {});
+    });
+
+    /**
+     * Catches up with the events missed while the client was disconnected: the prompt may have started,
+     * finished, failed or be gone.
+     */
+    this.resyncJob = async (queue) => {
+      if (settled) return;
+      if (queue.queue_running.some((item) => item.prompt_id === promptId)) {
+        promptLoadTrigger(false);
+        return;
+      }
+      if (queue.queue_pending.some((item) => item.prompt_id === promptId)) {
+        return;
+      }
+      const history = await this.client.getHistory(promptId).catch(() => undefined);
+      if (settled) return;
+      if (history?.status?.completed) {
+        promptLoadTrigger(false);
+        this.finishJob(promptId, this.mapOutput(history.outputs), jobDoneTrigger);
+        return;
+      }
+      this.abortJob?.((history && this.historyError(history)) || new WentMissingError("The job went missing!"));
+    };
+
+    if (timeouts) {
+      const watchdog = this.watchTimeouts(promptId, timeouts, async (error) => {
+        // The end of the job might have been missed, e.g. a lost message
+        const history = await this.client.getHistory(promptId).catch(() => undefined);
+        if (settled) return;
+        if (history?.status?.completed) {
+          this.finishJob(promptId, this.mapOutput(history.outputs), jobDoneTrigger);
+          return;
+        }
+        const historyError = history && this.historyError(history);
+        if (historyError) {
+          this.abortJob?.(historyError);
+          return;
+        }
+        if (timeouts.onTimeout !== "keep") {
+          await this.removeFromServer(promptId).catch(() => {});
+        }
+        this.abortJob?.(error);
+      });
+      this.watchdogOffFn = watchdog.stop;
+      this.watchdogStartFn = watchdog.started;
+    }
+
+    if (attached) {
+      // The prompt might have started or finished before the listeners were added
+      const queue = await this.client.getQueue().catch(() => null);
+      const queued = queue && [...queue.queue_running, ...queue.queue_pending].find((i) => i.prompt_id === promptId);
+      if (!queue || queued) {
+        // A prompt queued by another client id, e.g. by a previous process, doesn't get its events on this socket
+        this.client.trackPrompt(promptId, queued?.extra_data?.client_id !== this.client.id);
+      }
+      if (queue?.queue_running.some((item) => item.prompt_id === promptId)) {
+        promptLoadTrigger(false);
+      } else if (queue && !queue.queue_pending.some((item) => item.prompt_id === promptId)) {
+        await dequeuedHandler();
+      }
+    }
 
     await promptLoadCached;
 
-    if (wentMissing) {
+    if (wentMissing || settled) {
       return jobDonePromise;
     }
+    this.watchdogStartFn?.();
 
-    cachedOutputPromise = this.handleCachedOutput(job.prompt_id);
+    cachedOutputPromise = this.handleCachedOutput(job.prompt_id, () => settled);
     const output = await cachedOutputPromise;
 
+    if (settled) {
+      return jobDonePromise;
+    }
+
     if (output) {
       cachedOutputDone = true;
       this.cleanupListeners();
@@ -272,7 +661,7 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
     if (output === false) {
       cachedOutputDone = true;
       this.cleanupListeners();
-      this.onFailedFn?.(new FailedCacheError("Failed to get cached output"), this.promptId);
+      this.fail(new FailedCacheError("Failed to get cached output"), this.promptId);
       jobDoneTrigger(false);
       return false;
     }
@@ -345,27 +734,34 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
   }
 
   private async enqueueJob() {
-    let workflow = structuredClone(this.prompt.workflow) as NodeData;
+    let prompt = this.prompt;
+    if (Object.keys(prompt.uploads).length > 0) {
+      try {
+        prompt = await this.uploadInputs(prompt);
+      } catch (e) {
+        this.fail(new EnqueueFailedError("Failed to upload the inputs", { cause: e }));
+        return null;
+      }
+    }
+
+    let workflow = structuredClone(prompt.workflow) as NodeData;
 
     if (this.prompt.bypassNodes.length > 0) {
       try {
         workflow = await this.bypassWorkflowNodes(workflow);
       } catch (e) {
-        if (e instanceof Response) {
-          this.onFailedFn?.(new MissingNodeError("Failed to get workflow node definitions", { cause: await e.json() }));
+        if (e instanceof ComfyHttpError) {
+          this.fail(new MissingNodeError("Failed to get workflow node definitions", { cause: e }));
         } else {
-          this.onFailedFn?.(new MissingNodeError("There was a missing node in the workflow bypass.", { cause: e }));
+          this.fail(new MissingNodeError("There was a missing node in the workflow bypass.", { cause: e }));
         }
         return null;
       }
     }
 
-    const job = await this.client.appendPrompt(workflow).catch(async (e) => {
-      if (e instanceof Response) {
-        this.onFailedFn?.(new EnqueueFailedError("Failed to queue prompt", { cause: await e.json() }));
-      } else {
-        this.onFailedFn?.(new EnqueueFailedError("Failed to queue prompt", { cause: e }));
-      }
+    this.queuedWorkflow = workflow;
+    const job = await this.client.appendPrompt(workflow).catch((e) => {
+      this.fail(new EnqueueFailedError("Failed to queue prompt", { cause: e }));
       return null;
     });
     if (!job) {
@@ -373,21 +769,88 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
     }
 
     this.promptId = job.prompt_id;
+    this.trace.enqueued(job.prompt_id);
     this.onPendingFn?.(this.promptId);
-    this.onDisconnectedHandlerOffFn = this.client.on("disconnected", () =>
-      this.onFailedFn?.(new DisconnectedError("Disconnected"), this.promptId)
-    );
+    this.emit({ type: "queued", promptId: job.prompt_id });
+    this.watchDisconnection(job.prompt_id);
     return job;
   }
 
+  /**
+   * Uploads the inputs of the prompt to the client, and returns a copy of the prompt using the uploaded files.
+   */
+  private async uploadInputs(prompt: PromptBuilder<I, O, T>) {
+    const resolved = prompt.clone();
+    for (const [key, upload] of Object.entries(prompt.uploads) as [I, TPromptUpload][]) {
+      resolved.input(key, await this.resolveUpload(key, upload));
+    }
+    return resolved;
+  }
+
+  /**
+   * Returns the input value of an upload, as expected by the `LoadImage` like nodes.
+   */
+  private async resolveUpload(key: string, upload: TPromptUpload): Promise<string> {
+    switch (upload.__upload) {
+      case "image": {
+        const { filename, subfolder, type } = upload.image;
+        const path = subfolder ? `${subfolder}/${filename}` : filename;
+        return type === "input" ? path : `${path} [${type}]`;
+      }
+      case "file": {
+        const fileName = upload.fileName ?? upload.path.split(/[\\/]/).pop()!;
+        return this.uploadBinary(await readFile(upload.path), fileName);
+      }
+      case "binary": {
+        const type = upload.data instanceof Blob ? upload.data.type : "";
+        const extension = type.startsWith("image/") ? type.slice("image/".length) : "png";
+        return this.uploadBinary(upload.data, upload.fileName ?? `${key}_${ComfyApi.generateId()}.${extension}`);
+      }
+    }
+  }
+
+  private async uploadBinary(data: BinaryInput, fileName: string) {
+    const { info } = await this.client.uploadImage(data, fileName);
+    return info.subfolder ? `${info.subfolder}/${info.filename}` : info.filename;
+  }
+
+  /**
+   * Keeps tracking the job while the client reconnects: the job is resynced once reconnected,
+   * and only fails if the reconnection gives up.
+   */
+  private watchDisconnection(promptId: string) {
+    const offReconnected = this.client.onPrompt(promptId, "queue_resync", (ev) => {
+      this.resyncJob?.(ev.detail.queue).catch(() => {});
+    });
+    const offFailed = this.client.onPrompt(promptId, "reconnection_failed", () => {
+      const error = new DisconnectedError("The connection was lost and could not be restored");
+      if (this.abortJob) {
+        this.abortJob(error);
+      } else {
+        this.cleanupListeners();
+        this.fail(error, this.promptId);
+      }
+    });
+    this.onDisconnectedHandlerOffFn = () => {
+      offReconnected();
+      offFailed();
+    };
+  }
+
   private async handleCachedOutput(
-    promptId: string
+    promptId: string,
+    isSettled?: () => boolean
   ): Promise<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | false | null> {
     const hisData = await this.client.getHistory(promptId);
+    // Finished meanwhile by its events
+    if (isSettled?.()) {
+      return null;
+    }
     if (hisData?.status?.completed) {
       const output = this.mapOutput(hisData.outputs);
       if (Object.values(output).some((v) => v !== undefined)) {
         this.onFinishedFn?.(output, this.promptId);
+        this.emit({ type: "finished", promptId, data: output });
         return output;
       } else {
         return false;
@@ -396,6 +859,23 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
     return null;
   }
 
+  private toOutputSources(
+    output: Partial<Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any>>
+  ): TOutputSource[] {
+    const outputMapped: Partial<Record<string, string>> = this.prompt.mapOutputKeys;
+    const sources: TOutputSource[] = [];
+    for (const [key, value] of Object.entries(output)) {
+      if (key === "_raw") {
+        for (const [nodeId, nodeOutput] of Object.entries(value ?? {})) {
+          sources.push({ key: nodeId, nodeId, output: nodeOutput as Record<string, any> });
+        }
+      } else {
+        sources.push({ key, nodeId: outputMapped[key] ?? key, output: value });
+      }
+    }
+    return sources;
+  }
+
   private mapOutput(outputNodes: any): Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> {
     const outputMapped = this.prompt.mapOutputKeys;
     const output: Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> = {} as any;
@@ -421,55 +901,56 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
   ): void {
     const reverseOutputMapped = this.reverseMapOutputKeys();
 
-    this.progressHandlerOffFn = this.client.on("progress", (ev) => this.handleProgress(ev, promptId));
-    this.previewHandlerOffFn = this.client.on("b_preview", (ev) => this.onPreviewFn?.(ev.detail, this.promptId));
+    this.progressHandlerOffFn = this.client.onPrompt(promptId, "progress", (ev) => this.handleProgress(ev, promptId));
+    this.previewHandlerOffFn = this.handlePreview(promptId);
 
     const totalOutput = Object.keys(reverseOutputMapped).length;
     let remainingOutput = totalOutput;
 
     const executionHandler = (ev: CustomEvent) => {
-      if (ev.detail.prompt_id !== promptId) return;
-
       const outputKey = reverseOutputMapped[ev.detail.node as keyof typeof this.prompt.mapOutputKeys];
       if (outputKey) {
         this.output[outputKey as keyof PromptBuilder<I, O, T>["mapOutputKeys"]] = ev.detail.output;
         this.onOutputFn?.(outputKey, ev.detail.output, this.promptId);
+        this.emit({ type: "output", promptId, key: outputKey, data: ev.detail.output });
         remainingOutput--;
       } else {
         this.output._raw = this.output._raw || {};
         this.output._raw[ev.detail.node as string] = ev.detail.output;
         this.onOutputFn?.(ev.detail.node as string, ev.detail.output, this.promptId);
+        this.emit({ type: "output", promptId, key: ev.detail.node, data: ev.detail.output });
       }
 
       if (remainingOutput === 0) {
-        this.cleanupListeners();
-        this.onFinishedFn?.(this.output, this.promptId);
-        jobDoneTrigger(this.output);
+        this.finishJob(promptId, this.output, jobDoneTrigger);
       }
     };
 
-    const executedEnd = async () => {
-      if (remainingOutput !== 0) {
-        // some cached output nodes might output after executedEnd, so check history data if an output is really missing
-        const hisData = await this.client.getHistory(promptId);
-        if (hisData?.status?.completed) {
-          const outputCount = Object.keys(hisData.outputs).length;
-          if (outputCount > 0 && outputCount - totalOutput === 0) {
-            return;
-          }
+    const executedEnd = async (ev: CustomEvent<TExecution>) => {
+      if (remainingOutput === 0) return;
+      // Outputs are missing when the job was attached while running, or when cached output nodes
+      // output after the end of the execution, so take them from the history
+      const hisData = await this.client.getHistory(promptId).catch(() => undefined);
+      if (remainingOutput === 0) return;
+      if (hisData?.status?.completed) {
+        const output = this.mapOutput(hisData.outputs);
+        if (Object.values(output).some((v) => v !== undefined)) {
+          this.finishJob(promptId, output, jobDoneTrigger);
+          return;
         }
-        this.onFailedFn?.(new ExecutionFailedError("Execution failed"), this.promptId);
-        this.cleanupListeners();
-        jobDoneTrigger(false);
       }
+      this.fail(new ExecutionFailedError("Execution failed"), this.promptId);
+      this.cleanupListeners();
+      jobDoneTrigger(false);
     };
 
-    this.executionEndSuccessOffFn = this.client.on("execution_success", executedEnd);
-    this.executionHandlerOffFn = this.client.on("executed", executionHandler);
-    this.errorHandlerOffFn = this.client.on("execution_error", (ev) => this.handleError(ev, promptId, jobDoneTrigger));
-    this.interruptionHandlerOffFn = this.client.on("execution_interrupted", (ev) => {
-      if (ev.detail.prompt_id !== promptId) return;
-      this.onFailedFn?.(
+    this.executionEndSuccessOffFn = this.client.onPrompt(promptId, "execution_success", executedEnd);
+    this.executionHandlerOffFn = this.client.onPrompt(promptId, "executed", executionHandler);
+    this.errorHandlerOffFn = this.client.onPrompt(promptId, "execution_error", (ev) =>
+      this.handleError(ev, jobDoneTrigger)
+    );
+    this.interruptionHandlerOffFn = this.client.onPrompt(promptId, "execution_interrupted", (ev) => {
+      this.fail(
         new ExecutionInterruptedError("The execution was interrupted!", { cause: ev.detail }),
         ev.detail.prompt_id
       );
@@ -478,6 +959,73 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
     });
   }
 
+  private finishJob(
+    promptId: string,
+    output: Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any>,
+    jobDoneTrigger: (value: Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | false) => void
+  ) {
+    // Report the outputs that were missed, e.g. while the client was disconnected
+    for (const [key, data] of Object.entries(output)) {
+      if (key === "_raw" || data === undefined || this.output[key as O] !== undefined) continue;
+      this.onOutputFn?.(key, data, this.promptId);
+      this.emit({ type: "output", promptId, key, data });
+    }
+    this.output = output;
+    this.completeWorkflowProgress(promptId);
+    this.cleanupListeners();
+    this.onFinishedFn?.(this.output, this.promptId);
+    this.emit({ type: "finished", promptId, data: this.output });
+    jobDoneTrigger(this.output);
+  }
+
+  /**
+   * Arms the watchdog timeouts of a prompt: the queue timeout until `started` is called, then the execution
+   * timeout and the idle timeout, which is reset by every execution event of the prompt.
+   *
+   * @returns Functions to mark the start of the execution and to stop the watchdog.
+   */
+  private watchTimeouts(promptId: string, timeouts: JobTimeouts, onTimeout: (error: JobTimeoutError) => void) {
+    const timers = new Map<JobTimeoutError["phase"], ReturnType<typeof setTimeout>>();
+    const disarm = (phase: JobTimeoutError["phase"]) => {
+      clearTimeout(timers.get(phase));
+      timers.delete(phase);
+    };
+    const arm = (phase: JobTimeoutError["phase"], timeout?: number) => {
+      disarm(phase);
+      if (!timeout || timeout <= 0) return;
+      timers.set(
+        phase,
+        setTimeout(() => {
+          stop();
+          onTimeout(new JobTimeoutError(phase, timeout));
+        }, timeout)
+      );
+    };
+
+    let running = false;
+    const started = () => {
+      if (running) return;
+      running = true;
+      disarm("queue");
+      arm("execution", timeouts.execution);
+      arm("idle", timeouts.idle);
+    };
+    const onActivity = () => {
+      started();
+      arm("idle", timeouts.idle);
+    };
+    const offs = (["execution_start", "execution_cached", "executing", "progress", "executed"] as const).map((type) =>
+      this.client.onPrompt(promptId, type, onActivity)
+    );
+    const stop = () => {
+      offs.forEach((off) => off());
+      [...timers.keys()].forEach(disarm);
+    };
+
+    arm("queue", timeouts.queue);
+    return { started, stop };
+  }
+
   private reverseMapOutputKeys(): Record<string, string> {
     const outputMapped: Partial<Record<string, string>> = this.prompt.mapOutputKeys;
     return Object.entries(outputMapped).reduce(
@@ -489,28 +1037,180 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
     );
   }
 
-  private handleProgress(ev: CustomEvent, promptId: string) {
-    if (ev.detail.prompt_id === promptId && !this.started) {
+  /**
+   * Forwards the previews of the prompt to `onPreview`.
+   * Previews carrying metadata are matched by prompt id, legacy previews are only forwarded until the prompt
+   * reports the end of its execution.
+   */
+  private handlePreview(promptId: string) {
+    let hasMetadata = false;
+    let executing = true;
+    const offMeta = this.client.onPrompt(promptId, "b_preview_meta", (ev) => {
+      hasMetadata = true;
+      this.onPreviewFn?.(ev.detail.blob, this.promptId);
+      this.emit({ type: "preview", promptId, blob: ev.detail.blob });
+    });
+    const offExecuting = this.client.onPrompt(promptId, "executing", (ev) => {
+      executing = ev.detail.node !== null;
+    });
+    const offPreview = this.client.onPrompt(promptId, "b_preview", (ev) => {
+      if (hasMetadata || !executing) return;
+      this.onPreviewFn?.(ev.detail, this.promptId);
+      this.emit({ type: "preview", promptId, blob: ev.detail });
+    });
+    return () => {
+      offMeta();
+      offExecuting();
+      offPreview();
+    };
+  }
+
+  /**
+   * Follows the nodes executed by the prompt, and reports the progress of the whole workflow.
+   * The steps of the running node are fed by `handleProgress`, after the `progress` job event.
+   */
+  private handleWorkflowProgress(promptId: string) {
+    let history = CallWrapper.timingHistories.get(this.client);
+    if (!history) {
+      history = new NodeTimingHistory();
+      CallWrapper.timingHistories.set(this.client, history);
+    }
+    const tracker = new WorkflowProgressTracker(this.queuedWorkflow ?? this.prompt.workflow, history);
+    this.workflowProgress = tracker;
+    // Without the definitions, the nodes without dependents are counted as output nodes
+    this.client
+      .getNodeDefs()
+      .then((defs) => defs && this.workflowProgress === tracker && tracker.useNodeDefs(defs))
+      .catch(() => {});
+
+    const offStart = this.client.onPrompt(promptId, "execution_start", () => {
+      tracker.start();
+      this.reportWorkflowProgress(promptId);
+    });
+    const offCached = this.client.onPrompt(promptId, "execution_cached", (ev) => {
+      tracker.cached(ev.detail.nodes);
+      this.reportWorkflowProgress(promptId);
+    });
+    const offExecuting = this.client.onPrompt(promptId, "executing", (ev) => {
+      tracker.executing(ev.detail.node);
+      this.reportWorkflowProgress(promptId);
+    });
+    return () => {
+      offStart();
+      offCached();
+      offExecuting();
+    };
+  }
+
+  /**
+   * Records the execution events of the prompt in the trace.
+   */
+  private handleTrace(promptId: string) {
+    const trace = this.trace;
+    const workflow = this.queuedWorkflow ?? this.prompt.workflow;
+    const offStart = this.client.onPrompt(promptId, "execution_start", () => trace.executionStart());
+    const offCached = this.client.onPrompt(promptId, "execution_cached", (ev) => trace.cached(ev.detail.nodes));
+    const offExecuting = this.client.onPrompt(promptId, "executing", (ev) => {
+      trace.executing(ev.detail.node, ev.detail.node ? workflow[ev.detail.node]?.class_type : undefined);
+    });
+    const offExecuted = this.client.onPrompt(promptId, "executed", (ev) => trace.executed(ev.detail.node));
+    return () => {
+      offStart();
+      offCached();
+      offExecuting();
+      offExecuted();
+      trace.end();
+    };
+  }
+
+  private reportWorkflowProgress(promptId: string) {
+    if (!this.workflowProgress) return;
+    const progress = this.workflowProgress.snapshot;
+    this.onWorkflowProgressFn?.(progress, this.promptId);
+    this.emit({ type: "workflow_progress", promptId, progress });
+  }
+
+  private completeWorkflowProgress(promptId: string) {
+    this.workflowProgress?.finish();
+    this.reportWorkflowProgress(promptId);
+  }
+
+  private markStarted(promptId: string) {
+    if (!this.started) {
       this.started = true;
       this.onStartFn?.(this.promptId);
+      this.emit({ type: "started", promptId });
     }
+  }
+
+  private handleProgress(ev: CustomEvent, promptId: string) {
+    this.markStarted(promptId);
     this.onProgressFn?.(ev.detail, this.promptId);
+    this.emit({ type: "progress", promptId, progress: ev.detail });
+    if (this.workflowProgress && ev.detail.node) {
+      this.workflowProgress.progress(ev.detail.node, ev.detail.value, ev.detail.max);
+      this.reportWorkflowProgress(promptId);
+    }
   }
 
   private handleError(
     ev: CustomEvent,
-    promptId: string,
     resolve: (value: Record<keyof PromptBuilder<I, O, T>["mapOutputKeys"] | "_raw", any> | false) => void
   ) {
-    if (ev.detail.prompt_id !== promptId) return;
-    this.onFailedFn?.(new CustomEventError(ev.detail.exception_type, { cause: ev.detail }), ev.detail.prompt_id);
+    this.fail(new CustomEventError(ev.detail.exception_type, { cause: ev.detail }), ev.detail.prompt_id);
     this.cleanupListeners();
     resolve(false);
   }
 
+  private emit(event: TJobEvent) {
+    this.streamListeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Reports a failure of the job, kept for `execute`.
+   */
+  private fail(error: Error, promptId?: string) {
+    this.lastError = error;
+    this.trace.error(error);
+    this.onFailedFn?.(error, promptId);
+    this.emit({ type: "failed", promptId, error });
+  }
+
+  /**
+   * Returns the error of a failed job from its history entry.
+   */
+  private historyError(history: HistoryEntry): Error | undefined {
+    for (const [type, detail] of history.status?.messages ?? []) {
+      if (type === "execution_error") {
+        return new CustomEventError(detail.exception_type, { cause: detail });
+      }
+      if (type === "execution_interrupted") {
+        return new ExecutionInterruptedError("The execution was interrupted!", { cause: detail });
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Removes the prompt from the queue if it is pending, or interrupts it if it is running.
+   */
+  private async removeFromServer(promptId: string) {
+    const queue = await this.client.getQueue();
+    if (queue.queue_pending.some((item) => item.prompt_id === promptId)) {
+      await this.client.deleteQueueItems([promptId]);
+    } else if (queue.queue_running.some((item) => item.prompt_id === promptId)) {
+      await this.client.interrupt(promptId);
+    }
+  }
+
   private cleanupListeners() {
+    this.abortJob = undefined;
+    if (this.promptId) {
+      this.client.untrackPrompt(this.promptId);
+    }
     this.onDisconnectedHandlerOffFn?.();
     this.checkExecutingOffFn?.();
+    this.checkExecutionStartOffFn?.();
     this.checkExecutedOffFn?.();
     this.progressHandlerOffFn?.();
     this.previewHandlerOffFn?.();
@@ -519,5 +1219,10 @@ export class CallWrapper<I extends string, O extends string, T extends NodeData>
     this.executionEndSuccessOffFn?.();
     this.interruptionHandlerOffFn?.();
     this.statusHandlerOffFn?.();
+    this.workflowProgressOffFn?.();
+    this.traceOffFn?.();
+    this.watchdogOffFn?.();
+    this.watchdogStartFn = undefined;
+    this.resyncJob = undefined;
   }
 }
@@ -1,55 +1,118 @@
 import {
   BasicCredentials,
+  CredentialsProvider,
   BearerTokenCredentials,
+  BinaryInput,
   CustomCredentials,
+  FetchContext,
+  FetchFunction,
+  FetchInterceptor,
+  FetchOptions,
   HistoryEntry,
   HistoryResponse,
   ImageInfo,
   ModelFile,
   ModelFolder,
   ModelPreviewResponse,
+  NodeDefsCachePolicy,
   NodeDefsResponse,
   OSType,
   QueuePromptResponse,
+  QueueItem,
   QueueResponse,
   QueueStatus,
+  LivenessPolicy,
+  RawQueueItem,
+  ReconnectPolicy,
+  RequestOptions,
+  RetryPolicy,
   SystemStatsResponse
 } from "./types/api";
 
-import {WebSocket} from "ws";
-
-import {LOAD_CHECKPOINTS_EXTENSION, LOAD_KSAMPLER_EXTENSION, LOAD_LORAS_EXTENSION} from "./contansts";
-import {TComfyAPIEventMap} from "./types/event";
-import {delay} from "./tools";
+import {
+  BINARY_EVENT_TYPE,
+  CONNECTION_STATE_TRANSITIONS,
+  DEFAULT_LIVENESS_POLICY,
+  DEFAULT_NODE_DEFS_CACHE_POLICY,
+  DEFAULT_RECONNECT_POLICY,
+  DEFAULT_REQUEST_TIMEOUT,
+  DEFAULT_RETRY_POLICY,
+  IDEMPOTENT_METHODS,
+  LOAD_CHECKPOINTS_EXTENSION,
+  LOAD_KSAMPLER_EXTENSION,
+  LOAD_LORAS_EXTENSION,
+  PREVIEW_IMAGE_MIME
+} from "./contansts";
+import {TComfyAPIEventMap, TConnectionState, TDisconnectReason, TPreviewMetadata, TResynced} from "./types/event";
+import {isServerMessage, isServerMessageOf, isServerMessageType} from "./types/protocol";
+import {ComfyAuthError, ComfyHttpError, ComfyTimeoutError, ConnectionStateError} from "./types/error";
+import {delay, toBlob, toHeaderRecord} from "./tools";
 import {ManagerFeature} from "./features/manager";
 import {MonitoringFeature} from "./features/monitoring";
-
-interface FetchOptions extends RequestInit {
-  headers?: {
-    [key: string]: string;
-  };
-}
+import {
+  createWebSocket,
+  supportsWsHeaders,
+  toArrayBuffer,
+  TWebSocketAuthMode,
+  WebSocketClient,
+  WebSocketInterface,
+  WS_READY_STATE
+} from "./socket";
+import {PollingExecutionTracker} from "./polling";
+import {PromptEventDispatcher, TPromptDispatcherKey, TPromptEventMap} from "./prompt-dispatcher";
+import {NodeDefsCache} from "./node-defs-cache";
+import {
+  OutputResolver,
+  TOutputAsset,
+  TOutputDownloadOptions,
+  TOutputFormat,
+  TOutputSaveOptions,
+  TOutputSource,
+  TSavedOutputAsset
+} from "./output-resolver";
 
 export class ComfyApi extends EventTarget {
   public apiHost: string;
   public osType: OSType;
-  public isReady: boolean = false;
   public listenTerminal: boolean = false;
   public lastActivity: number = Date.now();
 
-  private readonly wsTimeout: number = 10000;
+  private readonly livenessPolicy: LivenessPolicy = DEFAULT_LIVENESS_POLICY;
   private wsTimer: Timer | null = null;
+  private livenessFailures = 0;
+  private probingLiveness = false;
+  private onPong: (() => void) | null = null;
   private _pollingTimer: NodeJS.Timeout | number | null = null;
+  private _state: TConnectionState = "idle";
+  private readonly pollingTracker = new PollingExecutionTracker(this);
+  private readonly outputResolver = new OutputResolver(this);
+  private readonly promptDispatcher = new PromptEventDispatcher(this);
+  private readonly nodeDefsCache: NodeDefsCache;
 
   private readonly apiBase: string;
+  private readonly wsUrl?: string;
+  private readonly wsQuery: Record<string, string> = {};
   private clientId: string | null;
-  private socket: WebSocket | null = null;
+  private socket: WebSocketClient | null = null;
+  private readonly wsImpl?: WebSocketInterface;
+  private readonly wsAuth: TWebSocketAuthMode;
   private listeners: {
     event: keyof TComfyAPIEventMap;
     options?: AddEventListenerOptions | boolean;
     handler: (event: TComfyAPIEventMap[keyof TComfyAPIEventMap]) => void;
   }[] = [];
   private readonly credentials: BasicCredentials | BearerTokenCredentials | CustomCredentials | null = null;
+  private readonly credentialsProvider: CredentialsProvider | null = null;
+  private providerHeaders: Record<string, string> = {};
+  private readonly fetchFn: FetchFunction = (input, init) => fetch(input, init);
+  private interceptors: FetchInterceptor[] = [];
+  private readonly requestTimeout: number = DEFAULT_REQUEST_TIMEOUT;
+  private readonly retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private readonly reconnectPolicy: ReconnectPolicy = DEFAULT_RECONNECT_POLICY;
+  /**
+   * Whether the server queued a prompt under the `prompt_id` sent by the client, older servers assign their own.
+   */
+  private echoesPromptId = false;
 
   public ext = {
     /**
@@ -62,6 +125,13 @@ export class ComfyApi extends EventTarget {
     monitor: new MonitoringFeature(this)
   };
 
+  /**
+   * Decodes a queue item tuple sent by ComfyUI.
+   */
+  private static toQueueItem([number, prompt_id, prompt, extra_data, outputs_to_execute]: RawQueueItem): QueueItem {
+    return {number, prompt_id, prompt, extra_data, outputs_to_execute};
+  }
+
   static generateId(): string {
     return "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx".replace(/[xy]/g, function (c) {
       const r = (Math.random() * 16) | 0;
@@ -87,7 +157,7 @@ export class ComfyApi extends EventTarget {
     options?: EventListenerOptions | boolean
   ): void {
     this.log("off", "Remove listener", {type, callback, options});
-    this.listeners = this.listeners.filter((listener) => listener.event !== type && listener.handler !== callback);
+    this.listeners = this.listeners.filter((listener) => listener.event !== type || listener.handler !== callback);
     this.removeEventListener(type, callback as any, options);
   }
 
@@ -97,6 +167,39 @@ export class ComfyApi extends EventTarget {
       this.removeEventListener(listener.event, listener.handler, listener.options);
     });
     this.listeners = [];
+    this.promptDispatcher.clear();
+  }
+
+  /**
+   * Adds a listener for an event of a single prompt, such as `executing`, `progress` or `executed`.
+   * Events are routed by `prompt_id`, so many tracked prompts don't slow down each event. The `dequeued` and
+   * `queue_resync` checks share a single `/queue` request per `status` message or reconnect.
+   *
+   * @param promptId - The ID of the prompt.
+   * @param type - The event to listen to, see `PROMPT_EVENTS`, `BROADCAST_EVENTS` and `TPromptEventMap`.
+   * @param callback - The listener.
+   * @returns A function that removes the listener.
+   */
+  public onPrompt<K extends TPromptDispatcherKey>(
+    promptId: string,
+    type: K,
+    callback: (event: TPromptEventMap[K]) => void
+  ) {
+    return this.promptDispatcher.on(promptId, type, callback);
+  }
+
+  /**
+   * The connection state of the client, changes are emitted as `state_change`.
+   */
+  get state(): TConnectionState {
+    return this._state;
+  }
+
+  /**
+   * Whether the client is initialized and connected, through the WebSocket or by polling.
+   */
+  get isReady(): boolean {
+    return this._state === "ready" || this._state === "degraded-polling";
   }
 
   get id(): string {
@@ -128,28 +231,119 @@ export class ComfyApi extends EventTarget {
        */
       forceWs?: boolean;
       /**
-       * Timeout for WebSocket connection.
+       * Shorthand for the liveness `timeout`, the checks then run every half of it.
        * Default is 10000ms.
        */
       wsTimeout?: number;
+      /**
+       * Liveness check of the WebSocket, independent from the message activity.
+       * Default is a ping frame, or an HTTP probe of `/prompt`, when the socket was quiet for 5000ms,
+       * reconnecting after 2 probes without answer within 10000ms.
+       */
+      liveness?: Partial<LivenessPolicy>;
       /**
        * Listen to terminal logs from the server. Default (false)
        */
       listenTerminal?: boolean;
-      credentials?: BasicCredentials | BearerTokenCredentials | CustomCredentials;
+      /**
+       * Static credentials, or a provider called before each REST call and WebSocket connection.
+       */
+      credentials?: BasicCredentials | BearerTokenCredentials | CustomCredentials | CredentialsProvider;
+      /**
+       * Custom `fetch` implementation used for every REST call. Default is the global `fetch`.
+       */
+      fetch?: FetchFunction;
+      /**
+       * Interceptors applied to every REST call, see `addInterceptor`.
+       */
+      interceptors?: FetchInterceptor[];
+      /**
+       * Custom WebSocket implementation. Default is the native `WebSocket` in browsers and `ws` on NodeJS.
+       */
+      customWebSocketImpl?: WebSocketInterface;
+      /**
+       * How credentials are sent when opening the WebSocket.
+       * Default is "headers", or "query" when the WebSocket can't carry headers (browsers).
+       */
+      wsAuth?: TWebSocketAuthMode;
+      /**
+       * URL of the WebSocket, when the proxy serves it elsewhere than `{host}/ws`.
+       * `http(s)` URLs are turned into `ws(s)`, the client id and auth parameters are added to its query string.
+       */
+      wsUrl?: string;
+      /**
+       * Extra query parameters of the WebSocket URL, e.g. the access token of a proxy that strips the headers of
+       * the upgrade request.
+       */
+      wsQuery?: Record<string, string>;
+      /**
+       * Timeout of each REST call attempt in milliseconds, `0` disables it.
+       * Default is 60000ms.
+       */
+      timeout?: number;
+      /**
+       * Retry policy of REST calls. Only idempotent requests and `queuePrompt` are retried.
+       * Default is 2 retries with a 500ms exponential backoff on network errors, timeouts and 408/429/5xx.
+       */
+      retry?: Partial<RetryPolicy>;
+      /**
+       * Reconnection policy of the WebSocket, `maxAttempts: Infinity` retries forever.
+       * Default is 10 attempts with a 1000ms exponential backoff up to 15000ms.
+       */
+      reconnect?: Partial<ReconnectPolicy>;
+      /**
+       * Cache of the node definitions, invalidated on reconnect and after the installs of the Manager.
+       * Default is a 300000ms TTL without persistence.
+       */
+      nodeDefsCache?: Partial<NodeDefsCachePolicy>;
     }
   ) {
     super();
-    this.apiHost = host;
-    this.apiBase = host.split("://")[1];
+    // Keep the base path of servers mounted under a sub-path, e.g. `https://gpu.example.com/comfy/`
+    const url = new URL(host);
+    const basePath = url.pathname.replace(/\/+$/, "");
+    this.apiHost = `${url.origin}${basePath}`;
+    this.apiBase = `${url.host}${basePath}`;
+    this.wsUrl = opts?.wsUrl;
+    if (opts?.wsQuery) {
+      this.wsQuery = {...opts.wsQuery};
+    }
     this.clientId = clientId;
-    if (opts?.credentials) {
-      this.credentials = opts?.credentials;
-      this.testCredentials();
+    if (opts?.fetch) {
+      this.fetchFn = opts.fetch;
+    }
+    if (opts?.interceptors) {
+      this.interceptors = [...opts.interceptors];
+    }
+    this.wsImpl = opts?.customWebSocketImpl;
+    this.wsAuth = opts?.wsAuth ?? (supportsWsHeaders(this.wsImpl) ? "headers" : "query");
+    if (opts?.timeout !== undefined) {
+      this.requestTimeout = opts.timeout;
+    }
+    if (opts?.retry) {
+      this.retryPolicy = {...DEFAULT_RETRY_POLICY, ...opts.retry};
+    }
+    if (opts?.reconnect) {
+      this.reconnectPolicy = {...DEFAULT_RECONNECT_POLICY, ...opts.reconnect};
     }
-    if (opts?.wsTimeout) {
-      this.wsTimeout = opts.wsTimeout;
+    const credentials = opts?.credentials;
+    if (credentials && "getHeaders" in credentials) {
+      this.credentialsProvider = credentials;
+    } else if (credentials) {
+      this.credentials = credentials;
     }
+    if (opts?.wsTimeout || opts?.liveness) {
+      this.livenessPolicy = {
+        ...DEFAULT_LIVENESS_POLICY,
+        ...(opts.wsTimeout ? {timeout: opts.wsTimeout, interval: opts.wsTimeout / 2} : {}),
+        ...opts.liveness
+      };
+    }
+    this.nodeDefsCache = new NodeDefsCache(
+      this.apiHost,
+      {...DEFAULT_NODE_DEFS_CACHE_POLICY, ...opts?.nodeDefsCache},
+      (fnName, message, data) => this.log(fnName, message, data)
+    );
     if (opts?.listenTerminal) {
       this.listenTerminal = opts.listenTerminal;
     }
@@ -168,12 +362,12 @@ export class ComfyApi extends EventTarget {
   destroy() {
     this.log("destroy", "Destroying client...");
 
-    // Cleanup flag to prevent re-entry
-    if ((this as any)._destroyed) {
+    // Prevent re-entry
+    if (this._state === "destroyed") {
       this.log("destroy", "Client already destroyed");
       return;
     }
-    (this as any)._destroyed = true;
+    this.setState("destroyed");
 
     // Clean up WebSocket timer
     if (this.wsTimer) {
@@ -186,6 +380,8 @@ export class ComfyApi extends EventTarget {
       clearInterval(this._pollingTimer as any);
       this._pollingTimer = null;
     }
+    this.pollingTracker.destroy();
+    this.promptDispatcher.destroy();
 
     // Clean up socket event handlers and force close WebSocket
     if (this.socket) {
@@ -198,14 +394,14 @@ export class ComfyApi extends EventTarget {
 
         // Forcefully close the WebSocket
         if (
-          this.socket.readyState === WebSocket.OPEN ||
-          this.socket.readyState === WebSocket.CONNECTING
+          this.socket.readyState === WS_READY_STATE.OPEN ||
+          this.socket.readyState === WS_READY_STATE.CONNECTING
         ) {
           this.socket.close();
         }
 
-        // Terminate the WebSocket connection
-        this.socket.terminate();
+        // Terminate the WebSocket connection (only available in NodeJS)
+        this.socket.terminate?.();
       } catch (e) {
         this.log("destroy", "Error while closing WebSocket", e);
       }
@@ -238,11 +434,67 @@ export class ComfyApi extends EventTarget {
     this.dispatchEvent(new CustomEvent("log", {detail: {fnName, message, data}}));
   }
 
+  /**
+   * Moves the connection state machine, transitions not allowed by `CONNECTION_STATE_TRANSITIONS` are ignored.
+   * @param state The new state.
+   */
+  private setState(state: TConnectionState) {
+    const previous = this._state;
+    if (state === previous) {
+      return;
+    }
+    if (!CONNECTION_STATE_TRANSITIONS[previous].includes(state)) {
+      this.log("state", `Ignored transition ${previous} -> ${state}`);
+      return;
+    }
+    this._state = state;
+    this.log("state", `${previous} -> ${state}`);
+    this.dispatchEvent(new CustomEvent("state_change", {detail: {state, previous}}));
+  }
+
   private apiURL(route: string): string {
     return `${this.apiHost}${route}`;
   }
 
+  /**
+   * URL of the WebSocket: `wsUrl` or `{host}/ws`, with the `ws(s)` scheme and the given query parameters.
+   */
+  private getWsURL(query: Record<string, string>): string {
+    const url = new URL(this.wsUrl ?? `${this.apiHost}/ws`);
+    if (url.protocol === "http:" || url.protocol === "https:") {
+      url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+    }
+    for (const [key, value] of Object.entries(query)) {
+      url.searchParams.set(key, value);
+    }
+    return url.toString();
+  }
+
+  /**
+   * Route of an output file served by `/view`, with URL-encoded parameters.
+   */
+  private static viewRoute(imageInfo: ImageInfo): string {
+    const query = new URLSearchParams({
+      filename: imageInfo.filename,
+      type: imageInfo.type,
+      subfolder: imageInfo.subfolder ?? ""
+    });
+    return `/view?${query}`;
+  }
+
+  /**
+   * Resolves the credential headers, calling the provider when set. The last provider headers are kept for the
+   * WebSocket, which is created synchronously.
+   */
+  private async resolveCredentialHeaders(): Promise<Record<string, string>> {
+    if (this.credentialsProvider) {
+      this.providerHeaders = {...(await this.credentialsProvider.getHeaders())};
+    }
+    return this.getCredentialHeaders();
+  }
+
   private getCredentialHeaders(): Record<string, string> {
+    if (this.credentialsProvider) return this.providerHeaders;
     if (!this.credentials) return {};
     switch (this.credentials?.type) {
       case "basic":
@@ -260,88 +512,265 @@ export class ComfyApi extends EventTarget {
     }
   }
 
-  private async testCredentials() {
-    try {
-      if (!this.credentials) return false;
-      await this.pollStatus(2000);
-      this.dispatchEvent(new CustomEvent("auth_success"));
-      return true;
-    } catch (e) {
-      this.log("testCredentials", "Failed", e);
-      if (e instanceof Response) {
-        if (e.status === 401) {
-          this.dispatchEvent(new CustomEvent("auth_error", {detail: e}));
-          return;
-        }
+  /**
+   * Credentials as query parameters, used when the WebSocket can't carry headers.
+   * Only the bearer token is sent, as `token`, since proxies can consume it. The other credentials would end up
+   * in access logs, their query is up to the caller through `wsQuery`.
+   */
+  private getCredentialQuery(): Record<string, string> {
+    for (const [key, value] of Object.entries(this.getCredentialHeaders())) {
+      const bearer = key.toLowerCase() === "authorization" && /^Bearer (.+)$/.exec(value);
+      if (bearer) {
+        return {token: bearer[1]};
       }
-      this.dispatchEvent(new CustomEvent("connection_error", {detail: e}));
-      return false;
     }
+    return {};
+  }
+
+  /**
+   * Checks the credentials against the server and emits `auth_success`.
+   * Throws the `ComfyAuthError` of rejected credentials.
+   */
+  private async testCredentials() {
+    if (!this.credentials && !this.credentialsProvider) return false;
+    await this.pollStatus(2000);
+    this.dispatchEvent(new CustomEvent("auth_success"));
+    return true;
   }
 
   private async testFeatures() {
     const extensions = Object.values(this.ext);
     await Promise.all(extensions.map((ext) => ext.checkSupported()));
-    /**
-     * Mark the client is ready to use the API.
-     */
-    this.isReady = true;
+  }
+
+  /**
+   * Registers an interceptor that runs around every REST call made by the client.
+   * Interceptors run in the order they were added.
+   *
+   * @param interceptor - The interceptor hooks.
+   * @returns A function that removes the interceptor.
+   */
+  public addInterceptor(interceptor: FetchInterceptor) {
+    this.interceptors.push(interceptor);
+    return () => {
+      this.interceptors = this.interceptors.filter((i) => i !== interceptor);
+    };
   }
 
   /**
    * Fetches data from the API.
    *
+   * Caller headers are merged with the credential headers, then the request goes through the
+   * registered interceptors and the configured `fetch` implementation. Each attempt is bound by
+   * the timeout, and transient failures of idempotent requests are retried following the retry policy.
+   * With a credentials provider, a 401 is handed to its `onAuthError` hook and the request is retried once.
+   *
    * @param route - The route to fetch data from.
-   * @param options - The options for the fetch request.
+   * @param options - The options for the fetch request, including `timeout` and `retry` overrides.
    * @returns A promise that resolves to the response from the API.
    */
   public async fetchApi(route: string, options?: FetchOptions): Promise<Response> {
-    if (!options) {
-      options = {};
+    const {timeout = this.requestTimeout, retry, ...init} = options ?? {};
+    const policy = this.resolveRetryPolicy(init.method, retry);
+    const response = await this.withRetry(policy, init.signal, () => this.send(route, init, timeout));
+    if (response.status !== 401 || !this.credentialsProvider) {
+      return response;
     }
-    options.headers = {
-      ...this.getCredentialHeaders()
-    };
-    options.mode = "cors";
-    return fetch(this.apiURL(route), options);
+    // The token may have expired, let the provider refresh it and retry once
+    const error = await ComfyHttpError.fromResponse(response.clone(), route, {method: init.method});
+    const refreshed = await this.credentialsProvider.onAuthError?.(error as ComfyAuthError);
+    if (refreshed === false) {
+      return response;
+    }
+    this.log("fetchApi", "Retrying with refreshed credentials", {route});
+    return this.withRetry(policy, init.signal, () => this.send(route, init, timeout));
   }
 
   /**
-   * Polls the status for colab and other things that don't support websockets.
-   * @returns {Promise<QueueStatus>} The status information.
+   * Sends a single attempt of a request through the interceptors.
    */
-  async pollStatus(timeout = 1000): Promise<QueueStatus> {
+  private async send(route: string, options: FetchOptions, timeout: number): Promise<Response> {
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const callerSignal = options.signal;
+    const onAbort = () => controller.abort(callerSignal?.reason);
+    if (callerSignal?.aborted) {
+      throw callerSignal.reason;
+    }
+    callerSignal?.addEventListener("abort", onAbort, {once: true});
+
+    let timedOut = false;
+    const timer =
+      timeout > 0
+        ? setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+          }, timeout)
+        : null;
+
+    let ctx: FetchContext = {
+      route,
+      url: this.apiURL(route),
+      init: {
+        mode: "cors",
+        ...(this.wsAuth === "cookie" ? {credentials: "include"} : {}),
+        ...options,
+        signal: controller.signal,
+        headers: {}
+      }
+    };
     try {
-      const response = await this.fetchApi("/prompt", {
-        signal: controller.signal
-      });
-      if (response.status === 200) {
-        return response.json();
-      } else {
-        throw response;
+      ctx.init.headers = {
+        ...(this.credentialsProvider ? await this.resolveCredentialHeaders() : this.getCredentialHeaders()),
+        ...toHeaderRecord(options.headers)
+      };
+      // The call may have been aborted while the provider was resolving the headers
+      controller.signal.throwIfAborted();
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onRequest) {
+          ctx = (await interceptor.onRequest(ctx)) ?? ctx;
+        }
       }
-    } catch (error: any) {
-      this.log("pollStatus", "Failed", error);
-      if (error.name === "AbortError") {
-        throw new Error("Request timed out");
+      let response = await this.fetchFn(ctx.url, ctx.init);
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onResponse) {
+          response = (await interceptor.onResponse(response, ctx)) ?? response;
+        }
+      }
+      return response;
+    } catch (e) {
+      let error = timedOut ? new ComfyTimeoutError(route, timeout, options.method, {cause: e}) : e;
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onError) {
+          error = await interceptor.onError(error, ctx);
+        }
       }
       throw error;
     } finally {
-      clearTimeout(timeoutId);
+      if (timer) clearTimeout(timer);
+      callerSignal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Resolves the retry policy of a request. Non idempotent methods are only retried with an explicit policy.
+   */
+  private resolveRetryPolicy(method = "GET", override?: Partial<RetryPolicy> | false): RetryPolicy | null {
+    if (override === false) return null;
+    if (override === undefined && !IDEMPOTENT_METHODS.includes(method.toUpperCase())) return null;
+    return {...this.retryPolicy, ...override};
+  }
+
+  /**
+   * Whether a failed attempt is worth retrying: network errors, timeouts and transient statuses.
+   */
+  private isTransientError(error: unknown, policy: RetryPolicy) {
+    if (error instanceof ComfyTimeoutError) return true;
+    if (error instanceof ComfyHttpError) return policy.retryOn.includes(error.status);
+    return error instanceof TypeError;
+  }
+
+  /**
+   * Runs `fn` again with an exponential backoff while it fails with a transient error.
+   *
+   * @param policy - The retry policy, `null` runs `fn` once.
+   * @param signal - Stops the retries when aborted.
+   * @param fn - The attempt to run.
+   * @param beforeRetry - Called before each retry, a returned value is used as the result instead of retrying.
+   */
+  private async withRetry<T>(
+    policy: RetryPolicy | null,
+    signal: AbortSignal | null | undefined,
+    fn: () => Promise<T>,
+    beforeRetry?: () => Promise<T | undefined>
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      let outcome: {result: T} | {error: unknown};
+      try {
+        const result = await fn();
+        if (!policy || !(result instanceof Response) || !policy.retryOn.includes(result.status)) {
+          return result;
+        }
+        outcome = {result};
+      } catch (e) {
+        if (!policy || !this.isTransientError(e, policy)) throw e;
+        outcome = {error: e};
+      }
+
+      const giveUp = () => {
+        if ("error" in outcome) throw outcome.error;
+        return outcome.result;
+      };
+      if (attempt >= policy.retries || signal?.aborted) {
+        return giveUp();
+      }
+
+      const wait = Math.min(policy.baseDelay * Math.pow(2, attempt), policy.maxDelay);
+      this.log("withRetry", `Attempt #${attempt + 1} failed, retrying in ${wait}ms`, outcome);
+      await delay(wait, signal ?? undefined);
+
+      if (beforeRetry) {
+        let recovered: T | undefined;
+        try {
+          recovered = await beforeRetry();
+        } catch (e) {
+          this.log("withRetry", "Retry check failed, giving up", e);
+          return giveUp();
+        }
+        if (recovered !== undefined) {
+          return recovered;
+        }
+      }
+    }
+  }
+
+  /**
+   * Fetches data from the API and throws a typed `ComfyHttpError` if the server doesn't answer with a success status.
+   *
+   * @param route - The route to fetch data from.
+   * @param options - The options for the fetch request.
+   * @returns A promise that resolves to the successful response.
+   */
+  private async request(route: string, options?: FetchOptions): Promise<Response> {
+    const response = await this.fetchApi(route, options);
+    if (!response.ok) {
+      throw await ComfyHttpError.fromResponse(response, route, {method: options?.method});
+    }
+    return response;
+  }
+
+  /**
+   * Polls the status for colab and other things that don't support websockets.
+   * @param timeout - Timeout of the call in milliseconds.
+   * @param options - Per call options, this call is not retried by default.
+   * @returns {Promise<QueueStatus>} The status information.
+   */
+  async pollStatus(timeout = 1000, options?: RequestOptions): Promise<QueueStatus> {
+    try {
+      const response = await this.request("/prompt", {retry: false, ...options, timeout});
+      return response.json();
+    } catch (error) {
+      this.log("pollStatus", "Failed", error);
+      throw error;
     }
   }
 
   /**
    * Queues a prompt for processing.
+   *
+   * The prompt is sent with a client generated `prompt_id`. Before each retry the queue and history are checked
+   * for that id, so a retry never enqueues the same prompt twice. Servers that assign their own id would enqueue
+   * it again, so retries are only enabled once the server queued a prompt under the client id.
+   *
    * @param {number} number The index at which to queue the prompt. using NULL will append to the end of the queue.
    * @param {object} workflow Additional workflow data.
+   * @param options - Per call options, an explicit `retry` policy enables retries on any server.
    * @returns {Promise<QueuePromptResponse>} The response from the API.
    */
-  async queuePrompt(number: number | null, workflow: object): Promise<QueuePromptResponse> {
+  async queuePrompt(number: number | null, workflow: object, options?: RequestOptions): Promise<QueuePromptResponse> {
+    const promptId = ComfyApi.generateId();
     const body = {
       client_id: this.clientId,
+      prompt_id: promptId,
       prompt: workflow
     } as any;
 
@@ -353,36 +782,83 @@ export class ComfyApi extends EventTarget {
       }
     }
 
+    const policy = this.resolveRetryPolicy("POST", options?.retry ?? (this.echoesPromptId ? {} : undefined));
     try {
-      const response = await this.fetchApi("/prompt", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json"
+      return await this.withRetry(
+        policy,
+        options?.signal,
+        async () => {
+          const response = await this.request("/prompt", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json"
+            },
+            body: JSON.stringify(body),
+            signal: options?.signal,
+            timeout: options?.timeout,
+            retry: false
+          });
+          return response.json();
         },
-        body: JSON.stringify(body)
+        () => this.findQueuedPrompt(promptId, options?.signal)
+      ).then((res) => {
+        this.echoesPromptId ||= res.prompt_id === promptId;
+        this.pollingTracker.track(res.prompt_id);
+        return res;
       });
-
-      if (response.status !== 200) {
-        throw {
-          response
-        };
-      }
-
-      return response.json();
     } catch (e) {
       this.log("queuePrompt", "Can't queue prompt", e);
-      throw e.response as Response;
+      throw e;
     }
   }
 
+  /**
+   * Tracks the execution events of a prompt that was not queued by this client instance,
+   * so they are also emitted when the polling fallback is used.
+   *
+   * @param promptId - The ID of the queued prompt.
+   * @param foreign - Whether the prompt was queued by another client id. The server only sends the execution
+   *                  events to the socket that queued the prompt, so they are polled on every `status` message.
+   */
+  trackPrompt(promptId: string, foreign = false) {
+    this.pollingTracker.track(promptId, foreign);
+  }
+
+  /**
+   * Stops tracking the execution events of a prompt, queued by this client or given to `trackPrompt`.
+   * Prompts are otherwise tracked until their end.
+   *
+   * @param promptId - The ID of the prompt.
+   */
+  untrackPrompt(promptId: string) {
+    this.pollingTracker.untrack(promptId);
+  }
+
+  /**
+   * Looks for a prompt in the queue and the history, used to check if a failed enqueue reached the server.
+   */
+  private async findQueuedPrompt(promptId: string, signal?: AbortSignal): Promise<QueuePromptResponse | undefined> {
+    const queue = await this.getQueue({signal, retry: false});
+    const queued = [...queue.queue_running, ...queue.queue_pending].find((item) => item.prompt_id === promptId);
+    if (queued) {
+      return {prompt_id: promptId, number: queued.number, node_errors: {}};
+    }
+    const history = await this.getHistory(promptId, {signal, retry: false});
+    if (history) {
+      return {prompt_id: promptId, number: history.prompt[0] as number, node_errors: {}};
+    }
+    return undefined;
+  }
+
   /**
    * Appends a prompt to the workflow queue.
    *
    * @param {object} workflow Additional workflow data.
+   * @param options - Per call options.
    * @returns {Promise<QueuePromptResponse>} The response from the API.
    */
-  async appendPrompt(workflow: object): Promise<QueuePromptResponse> {
-    return this.queuePrompt(null, workflow).catch((e) => {
+  async appendPrompt(workflow: object, options?: RequestOptions): Promise<QueuePromptResponse> {
+    return this.queuePrompt(null, workflow, options).catch((e) => {
       this.dispatchEvent(new CustomEvent("queue_error"));
       throw e;
     });
@@ -392,9 +868,46 @@ export class ComfyApi extends EventTarget {
    * Retrieves the current state of the queue.
    * @returns {Promise<QueueResponse>} The queue state.
    */
-  async getQueue(): Promise<QueueResponse> {
-    const response = await this.fetchApi("/queue");
-    return response.json();
+  async getQueue(options?: RequestOptions): Promise<QueueResponse> {
+    const response = await this.request("/queue", options);
+    const queue: { queue_running: RawQueueItem[]; queue_pending: RawQueueItem[] } = await response.json();
+    return {
+      queue_running: queue.queue_running.map(ComfyApi.toQueueItem),
+      queue_pending: queue.queue_pending.map(ComfyApi.toQueueItem)
+    };
+  }
+
+  /**
+   * Removes pending prompts from the queue. Running prompts are not affected, use `interrupt` instead.
+   * @param promptIds - The IDs of the prompts to remove.
+   */
+  async deleteQueueItems(promptIds: string[], options?: RequestOptions): Promise<void> {
+    await this.request("/queue", {
+      method: "POST",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers
+      },
+      body: JSON.stringify({delete: promptIds})
+    });
+    this.pollingTracker.untrackPending(promptIds);
+  }
+
+  /**
+   * Removes all pending prompts from the queue.
+   */
+  async clearQueue(options?: RequestOptions): Promise<void> {
+    await this.request("/queue", {
+      method: "POST",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers
+      },
+      body: JSON.stringify({clear: true})
+    });
+    this.pollingTracker.untrackPending();
   }
 
   /**
@@ -402,8 +915,8 @@ export class ComfyApi extends EventTarget {
    * @param {number} [maxItems=200] The maximum number of items to retrieve.
    * @returns {Promise<HistoryResponse>} The prompt execution history.
    */
-  async getHistories(maxItems: number = 200): Promise<HistoryResponse> {
-    const response = await this.fetchApi(`/history?max_items=${maxItems}`);
+  async getHistories(maxItems: number = 200, options?: RequestOptions): Promise<HistoryResponse> {
+    const response = await this.request(`/history?max_items=${maxItems}`, options);
     return response.json();
   }
 
@@ -412,29 +925,60 @@ export class ComfyApi extends EventTarget {
    * @param promptId - The ID of the prompt.
    * @returns A Promise that resolves to the HistoryEntry object.
    */
-  async getHistory(promptId: string): Promise<HistoryEntry | undefined> {
-    const response = await this.fetchApi(`/history/${promptId}`);
+  async getHistory(promptId: string, options?: RequestOptions): Promise<HistoryEntry | undefined> {
+    const response = await this.request(`/history/${promptId}`, options);
     const history: HistoryResponse = await response.json();
     return history[promptId];
   }
 
+  /**
+   * Removes history entries.
+   * @param promptIds - The IDs of the prompts to remove from the history.
+   */
+  async deleteHistory(promptIds: string[], options?: RequestOptions): Promise<void> {
+    await this.request("/history", {
+      method: "POST",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers
+      },
+      body: JSON.stringify({delete: promptIds})
+    });
+  }
+
+  /**
+   * Removes all the history entries.
+   */
+  async clearHistory(options?: RequestOptions): Promise<void> {
+    await this.request("/history", {
+      method: "POST",
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        ...options?.headers
+      },
+      body: JSON.stringify({clear: true})
+    });
+  }
+
   /**
    * Retrieves system and device stats.
    * @returns {Promise<SystemStatsResponse>} The system stats.
    */
-  async getSystemStats(): Promise<SystemStatsResponse> {
-    const response = await this.fetchApi("/system_stats");
+  async getSystemStats(options?: RequestOptions): Promise<SystemStatsResponse> {
+    const response = await this.request("/system_stats", options);
     return response.json();
   }
 
   /**
    * Retrieves the terminal logs from the server.
    */
-  async getTerminalLogs(): Promise<{
+  async getTerminalLogs(options?: RequestOptions): Promise<{
     entries: Array<{ t: string; m: string }>;
     size: { cols: number; rows: number };
   }> {
-    const response = await this.fetchApi("/internal/logs/raw");
+    const response = await this.request("/internal/logs/raw", options);
     return response.json();
   }
 
@@ -442,14 +986,16 @@ export class ComfyApi extends EventTarget {
    * Sets the terminal subscription status.
    * Enable will subscribe to terminal logs from the websocket.
    */
-  async setTerminalSubscription(subscribe: boolean) {
+  async setTerminalSubscription(subscribe: boolean, options?: RequestOptions) {
     // Set the terminal subscription status again if call again
     this.listenTerminal = subscribe;
     // Send the request to the server
-    await this.fetchApi("/internal/logs/subscribe", {
+    await this.request("/internal/logs/subscribe", {
       method: "PATCH",
+      ...options,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...options?.headers
       },
       body: JSON.stringify({
         clientId: this.clientId,
@@ -462,8 +1008,8 @@ export class ComfyApi extends EventTarget {
    * Retrieves a list of extension URLs.
    * @returns {Promise<string[]>} A list of extension URLs.
    */
-  async getExtensions(): Promise<string[]> {
-    const response = await this.fetchApi("/extensions");
+  async getExtensions(options?: RequestOptions): Promise<string[]> {
+    const response = await this.request("/extensions", options);
     return response.json();
   }
 
@@ -471,8 +1017,8 @@ export class ComfyApi extends EventTarget {
    * Retrieves a list of embedding names.
    * @returns {Promise<string[]>} A list of embedding names.
    */
-  async getEmbeddings(): Promise<string[]> {
-    const response = await this.fetchApi("/api/embeddings?page_size=100");
+  async getEmbeddings(options?: RequestOptions): Promise<string[]> {
+    const response = await this.request("/api/embeddings?page_size=100", options);
     try {
       const data = await response.json();
       return data.items.map((model: any) => model.model_name);
@@ -486,8 +1032,8 @@ export class ComfyApi extends EventTarget {
    * Retrieves the checkpoints from the server.
    * @returns A promise that resolves to an array of strings representing the checkpoints.
    */
-  async getCheckpoints(): Promise<string[]> {
-    const nodeInfo = await this.getNodeDefs(LOAD_CHECKPOINTS_EXTENSION);
+  async getCheckpoints(options?: RequestOptions): Promise<string[]> {
+    const nodeInfo = await this.getNodeDefs(LOAD_CHECKPOINTS_EXTENSION, options);
     if (!nodeInfo) return [];
     const output = nodeInfo[LOAD_CHECKPOINTS_EXTENSION].input.required?.ckpt_name?.[0];
     if (!output) return [];
@@ -498,8 +1044,8 @@ export class ComfyApi extends EventTarget {
    * Retrieves the Loras from the node definitions.
    * @returns A Promise that resolves to an array of strings representing the Loras.
    */
-  async getLoras(): Promise<string[]> {
-    const nodeInfo = await this.getNodeDefs(LOAD_LORAS_EXTENSION);
+  async getLoras(options?: RequestOptions): Promise<string[]> {
+    const nodeInfo = await this.getNodeDefs(LOAD_LORAS_EXTENSION, options);
     if (!nodeInfo) return [];
     const output = nodeInfo[LOAD_LORAS_EXTENSION].input.required?.lora_name?.[0];
     if (!output) return [];
@@ -510,8 +1056,8 @@ export class ComfyApi extends EventTarget {
    * Retrieves the sampler information.
    * @returns An object containing the sampler and scheduler information.
    */
-  async getSamplerInfo() {
-    const nodeInfo = await this.getNodeDefs(LOAD_KSAMPLER_EXTENSION);
+  async getSamplerInfo(options?: RequestOptions) {
+    const nodeInfo = await this.getNodeDefs(LOAD_KSAMPLER_EXTENSION, options);
     if (!nodeInfo) return {};
     return {
       sampler: nodeInfo[LOAD_KSAMPLER_EXTENSION].input.required.sampler_name ?? [],
@@ -521,23 +1067,40 @@ export class ComfyApi extends EventTarget {
 
   /**
    * Retrieves node object definitions for the graph.
+   * Definitions are cached and concurrent calls share a single request, see `invalidateNodeDefs`.
+   * @param options - Per call options, the `signal` only aborts the wait of this call.
    * @returns {Promise<NodeDefsResponse>} The node definitions.
    */
-  async getNodeDefs(nodeName?: string): Promise<NodeDefsResponse | null> {
-    const response = await this.fetchApi(`/object_info${nodeName ? `/${nodeName}` : ""}`);
-    const result = await response.json();
-    if (Object.keys(result).length === 0) {
-      return null;
-    }
-    return result;
+  async getNodeDefs(nodeName?: string, options?: RequestOptions): Promise<NodeDefsResponse | null> {
+    const {signal, ...requestOptions} = options ?? {};
+    return this.nodeDefsCache.get(
+      nodeName,
+      async () => {
+        const response = await this.request(`/object_info${nodeName ? `/${nodeName}` : ""}`, requestOptions);
+        const result = await response.json();
+        if (Object.keys(result).length === 0) {
+          return null;
+        }
+        return result;
+      },
+      signal
+    );
+  }
+
+  /**
+   * Drops the cached node definitions, e.g. after installing custom nodes without the Manager feature.
+   * Called automatically on reconnect and after the installs of the Manager.
+   */
+  invalidateNodeDefs() {
+    this.nodeDefsCache.invalidate();
   }
 
   /**
    * Retrieves user configuration data.
    * @returns {Promise<any>} The user configuration data.
    */
-  async getUserConfig(): Promise<any> {
-    const response = await this.fetchApi("/users");
+  async getUserConfig(options?: RequestOptions): Promise<any> {
+    const response = await this.request("/users", options);
     return response.json();
   }
 
@@ -546,11 +1109,13 @@ export class ComfyApi extends EventTarget {
    * @param {string} username The username of the new user.
    * @returns {Promise<Response>} The response from the API.
    */
-  async createUser(username: string): Promise<Response> {
-    return await this.fetchApi("/users", {
+  async createUser(username: string, options?: RequestOptions): Promise<Response> {
+    return await this.request("/users", {
       method: "POST",
+      ...options,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...options?.headers
       },
       body: JSON.stringify({username})
     });
@@ -560,8 +1125,8 @@ export class ComfyApi extends EventTarget {
    * Retrieves all setting values for the current user.
    * @returns {Promise<any>} A dictionary of setting id to value.
    */
-  async getSettings(): Promise<any> {
-    const response = await this.fetchApi("/settings");
+  async getSettings(options?: RequestOptions): Promise<any> {
+    const response = await this.request("/settings", options);
     return response.json();
   }
 
@@ -570,8 +1135,8 @@ export class ComfyApi extends EventTarget {
    * @param {string} id The id of the setting to fetch.
    * @returns {Promise<any>} The setting value.
    */
-  async getSetting(id: string): Promise<any> {
-    const response = await this.fetchApi(`/settings/${encodeURIComponent(id)}`);
+  async getSetting(id: string, options?: RequestOptions): Promise<any> {
+    const response = await this.request(`/settings/${encodeURIComponent(id)}`, options);
     return response.json();
   }
 
@@ -580,11 +1145,13 @@ export class ComfyApi extends EventTarget {
    * @param {Record<string, unknown>} settings Dictionary of setting id to value to save.
    * @returns {Promise<void>}
    */
-  async storeSettings(settings: Record<string, unknown>): Promise<void> {
-    await this.fetchApi(`/settings`, {
+  async storeSettings(settings: Record<string, unknown>, options?: RequestOptions): Promise<void> {
+    await this.request(`/settings`, {
       method: "POST",
+      ...options,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...options?.headers
       },
       body: JSON.stringify(settings)
     });
@@ -596,11 +1163,13 @@ export class ComfyApi extends EventTarget {
    * @param {unknown} value The value of the setting.
    * @returns {Promise<void>}
    */
-  async storeSetting(id: string, value: unknown): Promise<void> {
-    await this.fetchApi(`/settings/${encodeURIComponent(id)}`, {
+  async storeSetting(id: string, value: unknown, options?: RequestOptions): Promise<void> {
+    await this.request(`/settings/${encodeURIComponent(id)}`, {
       method: "POST",
+      ...options,
       headers: {
-        "Content-Type": "application/json"
+        "Content-Type": "application/json",
+        ...options?.headers
       },
       body: JSON.stringify(value)
     });
@@ -611,77 +1180,71 @@ export class ComfyApi extends EventTarget {
    * @param file - The image file to upload.
    * @param fileName - The name of the image file.
    * @param override - Optional. Specifies whether to override an existing file with the same name. Default is true.
-   * @returns A Promise that resolves to an object containing the image information and the URL of the uploaded image,
-   *          or false if the upload fails.
+   * @returns A Promise that resolves to an object containing the image information and the URL of the uploaded image.
+   * @throws {ComfyHttpError} If the upload fails.
    */
   async uploadImage(
-    file: Buffer | Blob,
+    file: BinaryInput,
     fileName: string,
     config?: {
       override?: boolean;
       subfolder?: string;
-    }
-  ): Promise<{ info: ImageInfo; url: string } | false> {
+    },
+    options?: RequestOptions
+  ): Promise<{ info: ImageInfo; url: string }> {
     const formData = new FormData();
-    const fileBlob = file instanceof Buffer ? new Blob([new Uint8Array(file)]) : (file as Blob);
-    formData.append("image", fileBlob, fileName);
+    formData.append("image", toBlob(file), fileName);
     formData.append("subfolder", config?.subfolder ?? "");
     formData.append("overwrite", config?.override?.toString() ?? "false");
 
     try {
-      const response = await this.fetchApi("/upload/image", {
+      const response = await this.request("/upload/image", {
         method: "POST",
-        body: formData
+        body: formData,
+        ...options
       });
       const imgInfo = await response.json();
       const mapped = {...imgInfo, filename: imgInfo.name};
 
-      // Check if the response is successful
-      if (!response.ok) {
-        this.log("uploadImage", "Upload failed", response);
-        return false;
-      }
-
       return {
         info: mapped,
         url: this.getPathImage(mapped)
       };
     } catch (e) {
       this.log("uploadImage", "Upload failed", e);
-      return false;
+      throw e;
     }
   }
 
   /**
    * Uploads a mask file to the server.
    *
-   * @param file - The mask file to upload, can be a Buffer or Blob.
+   * @param file - The mask file to upload, can be a Blob, ArrayBuffer or Buffer.
    * @param originalRef - The original reference information for the file.
-   * @returns A Promise that resolves to an object containing the image info and URL if the upload is successful, or false if the upload fails.
+   * @returns A Promise that resolves to an object containing the image info and URL of the uploaded mask.
+   * @throws {ComfyHttpError} If the upload fails.
    */
-  async uploadMask(file: Buffer | Blob, originalRef: ImageInfo): Promise<{ info: ImageInfo; url: string } | false> {
+  async uploadMask(
+    file: BinaryInput,
+    originalRef: ImageInfo,
+    options?: RequestOptions
+  ): Promise<{ info: ImageInfo; url: string }> {
     const formData = new FormData();
 
     // Append the image file to the form data
-    const fileBlob = file instanceof Buffer ? new Blob([new Uint8Array(file)]) : (file as Blob);
-    formData.append("image", fileBlob, "mask.png");
+    formData.append("image", toBlob(file), "mask.png");
 
     // Append the original reference as a JSON string
     formData.append("original_ref", JSON.stringify(originalRef));
 
     try {
       // Send the POST request to the /upload/mask endpoint
-      const response = await this.fetchApi("/upload/mask", {
+      const response = await this.request("/upload/mask", {
         method: "POST",
-        body: formData
+        body: formData,
+        ...options
       });
 
-      // Check if the response is successful
-      if (!response.ok) {
-        this.log("uploadMask", "Upload failed", response);
-        return false;
-      }
-
       const imgInfo = await response.json();
       const mapped = {...imgInfo, filename: imgInfo.name};
       return {
@@ -690,7 +1253,7 @@ export class ComfyApi extends EventTarget {
       };
     } catch (error) {
       this.log("uploadMask", "Upload failed", error);
-      return false;
+      throw error;
     }
   }
 
@@ -699,34 +1262,29 @@ export class ComfyApi extends EventTarget {
    *
    * @param unloadModels - A boolean indicating whether to unload models.
    * @param freeMemory - A boolean indicating whether to free memory.
-   * @returns A promise that resolves to a boolean indicating whether the memory was successfully freed.
+   * @returns A promise that resolves to `true` once the memory is freed.
+   * @throws {ComfyHttpError} If the request fails.
    */
-  async freeMemory(unloadModels: boolean, freeMemory: boolean): Promise<boolean> {
+  async freeMemory(unloadModels: boolean, freeMemory: boolean, options?: RequestOptions): Promise<boolean> {
     const payload = {
       unload_models: unloadModels,
       free_memory: freeMemory
     };
 
     try {
-      const response = await this.fetchApi("/free", {
+      await this.request("/free", {
         method: "POST",
+        ...options,
         headers: {
-          "Content-Type": "application/json"
+          "Content-Type": "application/json",
+          ...options?.headers
         },
         body: JSON.stringify(payload)
       });
-
-      // Check if the response is successful
-      if (!response.ok) {
-        this.log("freeMemory", "Free memory failed", response);
-        return false;
-      }
-
-      // Return the response object
       return true;
     } catch (error) {
       this.log("freeMemory", "Free memory failed", error);
-      return false;
+      throw error;
     }
   }
 
@@ -736,18 +1294,99 @@ export class ComfyApi extends EventTarget {
    * @returns The path to the image.
    */
   getPathImage(imageInfo: ImageInfo): string {
-    return this.apiURL(
-      `/view?filename=${imageInfo.filename}&type=${imageInfo.type}&subfolder=${imageInfo.subfolder ?? ""}`
-    );
+    return this.apiURL(ComfyApi.viewRoute(imageInfo));
   }
 
   /**
    * Get blob of image based on the provided image information. Use when the server have credential.
+   * The `timeout` and the `signal` also apply to the download of the body.
    */
-  async getImage(imageInfo: ImageInfo): Promise<Blob> {
-    return this.fetchApi(
-      `/view?filename=${imageInfo.filename}&type=${imageInfo.type}&subfolder=${imageInfo.subfolder ?? ""}`
-    ).then((res) => res.blob());
+  async getImage(imageInfo: ImageInfo, options?: RequestOptions): Promise<Blob> {
+    const route = ComfyApi.viewRoute(imageInfo);
+    const response = await this.request(route, options);
+    return this.readBlob(response, route, options);
+  }
+
+  /**
+   * Reads the body of a response, which the timer of `send` doesn't cover as it stops once the headers arrive.
+   * The body gets its own `timeout`, and the read is cancelled when the `signal` aborts.
+   */
+  private async readBlob(response: Response, route: string, options?: RequestOptions): Promise<Blob> {
+    const type = response.headers.get("content-type") ?? "";
+    if (!response.body) {
+      return new Blob([], {type});
+    }
+    const timeout = options?.timeout ?? this.requestTimeout;
+    const signal = options?.signal;
+    const reader = response.body.getReader();
+    let error: unknown;
+    const cancel = (reason: unknown) => {
+      error = reason;
+      reader.cancel(reason).catch(() => {});
+    };
+    const timer = timeout > 0 ? setTimeout(() => cancel(new ComfyTimeoutError(route, timeout)), timeout) : null;
+    const onAbort = () => cancel(signal!.reason);
+    if (signal?.aborted) {
+      onAbort();
+    }
+    signal?.addEventListener("abort", onAbort, {once: true});
+    try {
+      const chunks: BlobPart[] = [];
+      for (let chunk = await reader.read(); !chunk.done && !error; chunk = await reader.read()) {
+        // Response bodies are never backed by a shared buffer
+        chunks.push(chunk.value as Uint8Array<ArrayBuffer>);
+      }
+      if (error) {
+        throw error;
+      }
+      return new Blob(chunks, {type});
+    } catch (e) {
+      throw error ?? e;
+    } finally {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Get the response of an output file, e.g. to stream its body. Works for any file served by `/view`.
+   */
+  async fetchImage(imageInfo: ImageInfo, options?: RequestOptions): Promise<Response> {
+    return this.request(ComfyApi.viewRoute(imageInfo), options);
+  }
+
+  /**
+   * Downloads the files and texts of node outputs, such as the `outputs` of a history entry.
+   *
+   * @param outputs - The node outputs, keyed by node id.
+   * @param options - Concurrency, the fields to resolve and the format of the content (`blob`, `buffer` or `stream`).
+   * @returns The assets with their node id, mime type and source `ImageInfo`.
+   */
+  async downloadOutputs<F extends TOutputFormat = "blob">(
+    outputs: Record<string, any>,
+    options?: TOutputDownloadOptions<F>
+  ): Promise<TOutputAsset<F>[]> {
+    return this.outputResolver.download(ComfyApi.toOutputSources(outputs), options);
+  }
+
+  /**
+   * Writes the files and texts of node outputs into a directory, only available in NodeJS.
+   *
+   * @param outputs - The node outputs, keyed by node id.
+   * @param dir - The directory to write into, created if missing.
+   * @param options - Concurrency, the fields to resolve and the naming `pattern` of the files.
+   * @returns The written assets with their path.
+   */
+  async saveOutputs(
+    outputs: Record<string, any>,
+    dir: string,
+    options?: TOutputSaveOptions
+  ): Promise<TSavedOutputAsset[]> {
+    return this.outputResolver.save(dir, ComfyApi.toOutputSources(outputs), options);
+  }
+
+  private static toOutputSources(outputs: Record<string, any>): TOutputSource[] {
+    return Object.entries(outputs).map(([nodeId, output]) => ({key: nodeId, nodeId, output}));
   }
 
   /**
@@ -755,8 +1394,8 @@ export class ComfyApi extends EventTarget {
    * @param {string} file The name of the userdata file to load.
    * @returns {Promise<Response>} The fetch response object.
    */
-  async getUserData(file: string): Promise<Response> {
-    return this.fetchApi(`/userdata/${encodeURIComponent(file)}`);
+  async getUserData(file: string, options?: RequestOptions): Promise<Response> {
+    return this.fetchApi(`/userdata/${encodeURIComponent(file)}`, options);
   }
 
   /**
@@ -775,18 +1414,23 @@ export class ComfyApi extends EventTarget {
       throwOnError?: boolean;
     } = {overwrite: true, stringify: true, throwOnError: true}
   ): Promise<Response> {
-    const response = await this.fetchApi(`/userdata/${encodeURIComponent(file)}?overwrite=${options.overwrite}`, {
+    const route = `/userdata/${encodeURIComponent(file)}?overwrite=${options.overwrite}`;
+    const response = await this.fetchApi(route, {
       method: "POST",
+      ...options,
       headers: {
-        "Content-Type": options.stringify ? "application/json" : "application/octet-stream"
-      } as any,
-      body: options.stringify ? JSON.stringify(data) : (data as any),
-      ...options
+        "Content-Type": options.stringify ? "application/json" : "application/octet-stream",
+        ...toHeaderRecord(options.headers)
+      },
+      body: options.stringify ? JSON.stringify(data) : (data as any)
     });
 
     if (response.status !== 200 && options.throwOnError !== false) {
       this.log("storeUserData", "Error storing user data file", response);
-      throw new Error(`Error storing user data file '${file}': ${response.status} ${response.statusText}`);
+      throw await ComfyHttpError.fromResponse(response, route, {
+        method: "POST",
+        message: `Error storing user data file '${file}'`
+      });
     }
 
     return response;
@@ -797,14 +1441,19 @@ export class ComfyApi extends EventTarget {
    * @param {string} file The name of the userdata file to delete.
    * @returns {Promise<void>}
    */
-  async deleteUserData(file: string): Promise<void> {
-    const response = await this.fetchApi(`/userdata/${encodeURIComponent(file)}`, {
-      method: "DELETE"
+  async deleteUserData(file: string, options?: RequestOptions): Promise<void> {
+    const route = `/userdata/${encodeURIComponent(file)}`;
+    const response = await this.fetchApi(route, {
+      method: "DELETE",
+      ...options
     });
 
     if (response.status !== 204) {
       this.log("deleteUserData", "Error deleting user data file", response);
-      throw new Error(`Error removing user data file '${file}': ${response.status} ${response.statusText}`);
+      throw await ComfyHttpError.fromResponse(response, route, {
+        method: "DELETE",
+        message: `Error removing user data file '${file}'`
+      });
     }
   }
 
@@ -812,18 +1461,20 @@ export class ComfyApi extends EventTarget {
    * Moves a user data file for the current user.
    * @param {string} source The userdata file to move.
    * @param {string} dest The destination for the file.
-   * @param {RequestInit & { overwrite?: boolean }} [options] Additional options for moving the file.
+   * @param {RequestOptions & { overwrite?: boolean }} [options] Whether to overwrite the destination and the per call options.
    * @returns {Promise<Response>}
    */
   async moveUserData(
     source: string,
     dest: string,
-    options: RequestInit & { overwrite?: boolean } = {overwrite: false}
+    options: RequestOptions & { overwrite?: boolean } = {}
   ): Promise<Response> {
+    const {overwrite = false, ...requestOptions} = options;
     return this.fetchApi(
-      `/userdata/${encodeURIComponent(source)}/move/${encodeURIComponent(dest)}?overwrite=${options.overwrite}`,
+      `/userdata/${encodeURIComponent(source)}/move/${encodeURIComponent(dest)}?overwrite=${overwrite}`,
       {
-        method: "POST"
+        method: "POST",
+        ...requestOptions
       }
     );
   }
@@ -835,19 +1486,18 @@ export class ComfyApi extends EventTarget {
    * @param {boolean} [split] If the paths should be split based on the OS path separator.
    * @returns {Promise<string[]>} The list of files.
    */
-  async listUserData(dir: string, recurse?: boolean, split?: boolean): Promise<string[]> {
-    const response = await this.fetchApi(
-      `/userdata?${new URLSearchParams({
-        dir,
-        recurse: recurse?.toString() ?? "",
-        split: split?.toString() ?? ""
-      })}`
-    );
+  async listUserData(dir: string, recurse?: boolean, split?: boolean, options?: RequestOptions): Promise<string[]> {
+    const route = `/userdata?${new URLSearchParams({
+      dir,
+      recurse: recurse?.toString() ?? "",
+      split: split?.toString() ?? ""
+    })}`;
+    const response = await this.fetchApi(route, options);
 
     if (response.status === 404) return [];
     if (response.status !== 200) {
       this.log("listUserData", "Error getting user data list", response);
-      throw new Error(`Error getting user data list '${dir}': ${response.status} ${response.statusText}`);
+      throw await ComfyHttpError.fromResponse(response, route, {message: `Error getting user data list '${dir}'`});
     }
 
     return response.json();
@@ -855,11 +1505,22 @@ export class ComfyApi extends EventTarget {
 
   /**
    * Interrupts the execution of the running prompt.
+   * @param promptId - Only interrupt the execution if this prompt is the running one. Requires a recent ComfyUI.
    * @returns {Promise<void>}
    */
-  async interrupt(): Promise<void> {
-    await this.fetchApi("/interrupt", {
-      method: "POST"
+  async interrupt(promptId?: string, options?: RequestOptions): Promise<void> {
+    await this.request("/interrupt", {
+      method: "POST",
+      ...options,
+      ...(promptId
+        ? {
+            headers: {
+              "Content-Type": "application/json",
+              ...options?.headers
+            },
+            body: JSON.stringify({prompt_id: promptId})
+          }
+        : {})
     });
   }
 
@@ -871,10 +1532,14 @@ export class ComfyApi extends EventTarget {
    * @returns A Promise that resolves when initialization is complete.
    */
   async init(maxTries = 10, delayTime = 1000): Promise<this> {
+    this.setState("connecting");
     try {
       // Wait for ping to succeed
       await this.pingSuccess(maxTries, delayTime);
 
+      // Rejected credentials fail the initialization
+      await this.testCredentials();
+
       // Get system OS type on initialization
       await this.pullOsType();
 
@@ -882,40 +1547,115 @@ export class ComfyApi extends EventTarget {
       await this.testFeatures();
 
       // Create WebSocket connection on initialization
+      await this.resolveCredentialHeaders();
       this.createSocket();
 
-      // Set terminal subscription on initialization
-      await this.setTerminalSubscription(this.listenTerminal);
+      // Set terminal subscription on initialization, older servers don't support it
+      await this.setTerminalSubscription(this.listenTerminal).catch((e) => {
+        this.log("init", "Failed to set terminal subscription", e);
+      });
 
-      // Mark as ready
-      this.isReady = true;
+      // Mark as ready, unless the WebSocket is already replaced by polling or dropped while initializing
+      if (this._state === "connecting") {
+        this.setState(this._pollingTimer ? "degraded-polling" : "ready");
+      }
 
       return this;
     } catch (e) {
       this.log("init", "Failed", e);
-      this.dispatchEvent(new CustomEvent("connection_error", {detail: e}));
+      this.setState("offline");
+      if (e instanceof ComfyAuthError) {
+        this.dispatchEvent(new CustomEvent("auth_error", {detail: e.response}));
+      } else {
+        this.dispatchEvent(new CustomEvent("connection_error", {detail: e}));
+      }
       throw e; // Propagate the error
     }
   }
 
   private async pingSuccess(maxTries = 10, delayTime = 1000) {
-    let tries = 0;
-    let ping = await this.ping();
-    while (!ping.status) {
+    for (let tries = 0; ; tries++) {
+      let error: unknown;
+      try {
+        await this.pollStatus(5000);
+        return;
+      } catch (e) {
+        // The server is up but rejects the credentials, trying again won't help
+        if (e instanceof ComfyAuthError) {
+          throw e;
+        }
+        this.log("ping", "Can't connect to the server", e);
+        error = e;
+      }
       if (tries > maxTries) {
-        throw new Error("Can't connect to the server");
+        // Network errors have no response, they are reported with a `0` status
+        throw error instanceof ComfyHttpError
+          ? error
+          : new ComfyHttpError("Can't connect to the server", {status: 0, route: "/prompt"}, {cause: error});
       }
       await delay(delayTime); // Wait for 1s before trying again
-      ping = await this.ping();
-      tries++;
     }
   }
 
-  async waitForReady() {
-    while (!this.isReady) {
-      await delay(100);
+  /**
+   * Waits until the client is ready, through the WebSocket or by polling.
+   * @param options A timeout in milliseconds and a signal to stop waiting.
+   */
+  async waitForReady(options?: {timeout?: number; signal?: AbortSignal}) {
+    return this.waitForState(["ready", "degraded-polling"], options);
+  }
+
+  /**
+   * Waits until the client reaches one of the given connection states.
+   * Rejects with a `ConnectionStateError` on timeout or when the client is or gets destroyed, or with the signal reason.
+   * @param state The awaited state or states.
+   * @param options A timeout in milliseconds and a signal to stop waiting.
+   */
+  waitForState(
+    state: TConnectionState | TConnectionState[],
+    options?: {timeout?: number; signal?: AbortSignal}
+  ): Promise<this> {
+    const expected = Array.isArray(state) ? state : [state];
+    if (expected.includes(this._state)) {
+      return Promise.resolve(this);
     }
-    return this;
+    if (this._state === "destroyed") {
+      return Promise.reject(new ConnectionStateError(expected, this._state));
+    }
+    return new Promise((resolve, reject) => {
+      const {timeout, signal} = options ?? {};
+      if (signal?.aborted) {
+        return reject(signal.reason);
+      }
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const cleanup = () => {
+        clearTimeout(timer);
+        this.removeEventListener("state_change", onChange);
+        signal?.removeEventListener("abort", onAbort);
+      };
+      const onChange = () => {
+        if (expected.includes(this._state)) {
+          cleanup();
+          resolve(this);
+        } else if (this._state === "destroyed") {
+          cleanup();
+          reject(new ConnectionStateError(expected, this._state));
+        }
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(signal!.reason);
+      };
+      // Not registered with `on` so `removeAllListeners` doesn't drop it
+      this.addEventListener("state_change", onChange);
+      signal?.addEventListener("abort", onAbort, {once: true});
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new ConnectionStateError(expected, this._state, timeout));
+        }, timeout);
+      }
+    });
   }
 
   private async pullOsType() {
@@ -931,11 +1671,12 @@ export class ComfyApi extends EventTarget {
 
   /**
    * Sends a ping request to the server and returns a boolean indicating whether the server is reachable.
+   * @param options - Per call options, the timeout defaults to 5 seconds and the call is not retried by default.
    * @returns A promise that resolves to `true` if the server is reachable, or `false` otherwise.
    */
-  async ping() {
+  async ping(options?: RequestOptions) {
     const start = performance.now();
-    return this.pollStatus(5000)
+    return this.pollStatus(options?.timeout ?? 5000, options)
       .then(() => {
         return {status: true, time: performance.now() - start} as const;
       })
@@ -948,23 +1689,23 @@ export class ComfyApi extends EventTarget {
   /**
    * Attempts to reconnect the WebSocket with an exponential backoff strategy
    * @param triggerEvent Whether to trigger disconnect/reconnect events
+   * @param reason Why the socket is reconnected, carried by the events
    */
-  public async reconnectWs(triggerEvent?: boolean) {
+  public async reconnectWs(triggerEvent?: boolean, reason: TDisconnectReason = "manual") {
+    this.setState("reconnecting");
+    this.livenessFailures = 0;
     if (triggerEvent) {
-      this.dispatchEvent(new CustomEvent("disconnected"));
-      this.dispatchEvent(new CustomEvent("reconnecting"));
+      this.dispatchEvent(new CustomEvent("disconnected", {detail: {reason}}));
+      this.dispatchEvent(new CustomEvent("reconnecting", {detail: {reason}}));
     }
 
-    // Maximum number of reconnection attempts
-    const MAX_ATTEMPTS = 10;
-    // Base delay in milliseconds
-    const BASE_DELAY = 1000;
-    // Maximum delay between attempts (15 seconds)
-    const MAX_DELAY = 15000;
-
+    const {maxAttempts, baseDelay, maxDelay, jitter} = this.reconnectPolicy;
     let attempt = 0;
 
-    const tryReconnect = () => {
+    const tryReconnect = async () => {
+      if (this._state === "destroyed") {
+        return;
+      }
       attempt++;
       this.log("socket", `WebSocket reconnection attempt #${attempt}`);
 
@@ -972,9 +1713,7 @@ export class ComfyApi extends EventTarget {
       if (this.socket) {
         try {
           // Only call terminate if it exists (Node.js environment)
-          if (typeof this.socket.terminate === "function") {
-            this.socket.terminate();
-          }
+          this.socket.terminate?.();
           this.socket.close();
         } catch (error) {
           this.log("socket", "Error while closing previous socket", error);
@@ -983,91 +1722,119 @@ export class ComfyApi extends EventTarget {
 
       this.socket = null;
 
-      // Create a new socket connection
+      // Create a new socket connection, with fresh credentials when they come from a provider
       try {
+        if (this.credentialsProvider) {
+          await this.resolveCredentialHeaders();
+          if (this.state === "destroyed") {
+            return;
+          }
+        }
         this.createSocket(true);
       } catch (error) {
         this.log("socket", "Error creating socket during reconnect", error);
       }
 
-      // Calculate next retry delay with exponential backoff and jitter
-      if (attempt < MAX_ATTEMPTS) {
-        // Exponential backoff formula: baseDelay * 2^attempt + random jitter
-        const exponentialDelay = Math.min(BASE_DELAY * Math.pow(2, attempt - 1), MAX_DELAY);
-
-        // Add jitter (±30% of the delay) to prevent all clients reconnecting simultaneously
-        const jitter = exponentialDelay * 0.3 * (Math.random() - 0.5);
-        const delay = Math.max(1000, exponentialDelay + jitter);
+      // Exponential backoff formula: baseDelay * 2^attempt
+      const exponentialDelay = Math.min(baseDelay * Math.pow(2, attempt - 1), maxDelay);
 
-        this.log("socket", `Will retry in ${Math.round(delay / 1000)} seconds`);
+      // Add jitter to prevent all clients reconnecting simultaneously
+      const delay = Math.max(baseDelay, exponentialDelay + exponentialDelay * jitter * (Math.random() - 0.5));
 
-        // Check if the socket is reconnected within the timeout
-        setTimeout(() => {
-          if (!this.socket || (this.socket.readyState !== WebSocket.OPEN && this.socket.readyState !== WebSocket.CONNECTING)) {
-            this.log("socket", "Reconnection failed or timed out, retrying...");
-            tryReconnect(); // Retry if not connected
-          } else {
-            this.log("socket", "Reconnection successful");
-          }
-        }, delay);
-      } else {
-        this.log("socket", `Maximum reconnection attempts (${MAX_ATTEMPTS}) reached.`);
-        this.dispatchEvent(new CustomEvent("reconnection_failed"));
-      }
+      // Check if the socket is reconnected within the delay
+      const check = () => {
+        // Done once the socket opened, a later drop starts its own reconnection
+        if (this._state !== "reconnecting") {
+          return;
+        }
+        if (this.socket?.readyState === WS_READY_STATE.OPEN) {
+          this.log("socket", "Reconnection successful");
+        } else if (this.socket?.readyState === WS_READY_STATE.CONNECTING) {
+          // The handshake is still running, it isn't counted as a new attempt
+          setTimeout(check, delay);
+        } else if (attempt < maxAttempts) {
+          this.log("socket", "Reconnection failed or timed out, retrying...");
+          tryReconnect();
+        } else {
+          this.log("socket", `Maximum reconnection attempts (${maxAttempts}) reached.`);
+          this.setState("offline");
+          this.dispatchEvent(new CustomEvent("reconnection_failed"));
+        }
+      };
+      setTimeout(check, delay);
     };
 
     tryReconnect();
   }
 
+  /**
+   * Restores the state of the client on the server after a reconnect, the server may have restarted:
+   * drops the cached node definitions, subscribes again to the terminal logs, then polls the queue and emits it
+   * as `resynced`.
+   * Called automatically once the WebSocket is reconnected.
+   * @returns The queue status and the queue items.
+   */
+  async resync(options?: RequestOptions): Promise<TResynced> {
+    this.invalidateNodeDefs();
+    if (this.listenTerminal) {
+      await this.setTerminalSubscription(true, options).catch((e) => {
+        this.log("resync", "Failed to set terminal subscription", e);
+      });
+    }
+    const [status, queue] = await Promise.all([this.pollStatus(5000, options), this.getQueue(options)]);
+    this.dispatchEvent(new CustomEvent("resynced", {detail: {status, queue}}));
+    return {status, queue};
+  }
+
   private resetLastActivity() {
     this.lastActivity = Date.now();
   }
 
-  /**
-   * Creates and connects a WebSocket for real-time updates.
-   * @param {boolean} isReconnect If the socket connection is a reconnect attempt.
-   */
   /**
    * Creates and connects a WebSocket for real-time updates.
    * Falls back to polling if WebSocket is unavailable.
    * @param {boolean} isReconnect If the socket connection is a reconnect attempt.
    */
   private createSocket(isReconnect: boolean = false) {
-    let reconnecting = false;
-    let usePolling = false;
-
     if (this.socket) {
       this.log("socket", "Socket already exists, skipping creation.");
       return;
     }
 
-    const headers = {
-      ...this.getCredentialHeaders()
-    };
-
-    const existingSession = `?clientId=${this.clientId}`;
-    const wsUrl = `ws${this.apiHost.includes("https:") ? "s" : ""}://${this.apiBase}/ws${existingSession}`;
+    const wsUrl = this.getWsURL({
+      ...this.wsQuery,
+      clientId: this.clientId ?? "",
+      ...(this.wsAuth === "query" ? this.getCredentialQuery() : {})
+    });
 
     // Try to create WebSocket connection
     try {
-      this.socket = new WebSocket(wsUrl, {
-        headers: headers
+      const socket = createWebSocket(wsUrl, {
+        headers: this.wsAuth === "headers" ? this.getCredentialHeaders() : undefined,
+        impl: this.wsImpl
       });
+      this.socket = socket;
 
       this.socket.onclose = () => {
-        if (reconnecting || isReconnect) return;
-        reconnecting = true;
+        // Sockets replaced by a reconnect attempt are closed on purpose
+        if (socket !== this.socket || this._state === "reconnecting" || this._state === "destroyed") return;
         this.log("socket", "Socket closed -> Reconnecting");
-        this.reconnectWs(true);
+        this.reconnectWs(true, "socket_closed");
       };
 
       this.socket.onopen = () => {
         this.resetLastActivity();
-        reconnecting = false;
-        usePolling = false; // Reset polling flag if we have an open connection
+        this.startLivenessTimer();
         this.log("socket", "Socket opened");
+        // While `init` runs, it marks the client as ready once done
+        if (this._state !== "connecting") {
+          this.setState("ready");
+        }
+        // Ask the server to send previews with their prompt and node metadata
+        this.socket?.send(JSON.stringify({type: "feature_flags", data: {supports_preview_metadata: true}}));
         if (isReconnect) {
           this.dispatchEvent(new CustomEvent("reconnected"));
+          this.resync().catch((error) => this.log("resync", "Failed", error));
         } else {
           this.dispatchEvent(new CustomEvent("connected"));
         }
@@ -1075,7 +1842,6 @@ export class ComfyApi extends EventTarget {
     } catch (error) {
       this.log("socket", "WebSocket creation failed, falling back to polling", error);
       this.socket = null;
-      usePolling = true;
       this.dispatchEvent(new CustomEvent("websocket_unavailable", {detail: error}));
 
       // Set up polling mechanism
@@ -1087,42 +1853,16 @@ export class ComfyApi extends EventTarget {
       this.socket.onmessage = (event) => {
         this.resetLastActivity();
         try {
-          if (event.data instanceof Buffer) {
-            const buffer = event.data;
-            const view = new DataView(buffer.buffer);
-            const eventType = view.getUint32(0);
-            switch (eventType) {
-              case 1:
-                const imageType = view.getUint32(0);
-                let imageMime;
-                switch (imageType) {
-                  case 1:
-                  default:
-                    imageMime = "image/jpeg";
-                    break;
-                  case 2:
-                    imageMime = "image/png";
-                }
-                const imageBlob = new Blob([buffer.slice(8)], {
-                  type: imageMime
-                });
-                this.dispatchEvent(new CustomEvent("b_preview", {detail: imageBlob}));
-                break;
-              default:
-                throw new Error(`Unknown binary websocket message of type ${eventType}`);
-            }
+          const binary = toArrayBuffer(event.data);
+          if (typeof Blob !== "undefined" && event.data instanceof Blob) {
+            event.data
+              .arrayBuffer()
+              .then((buffer) => this.handleBinaryMessage(buffer))
+              .catch((error) => this.log("socket", "Unhandled message", {event, error}));
+          } else if (binary) {
+            this.handleBinaryMessage(binary);
           } else if (typeof event.data === "string") {
-            const msg = JSON.parse(event.data);
-            if (!msg.data || !msg.type) return;
-            this.dispatchEvent(new CustomEvent("all", {detail: msg}));
-            if (msg.type === "logs") {
-              this.dispatchEvent(new CustomEvent("terminal", {detail: msg.data.entries?.[0] || null}));
-            } else {
-              this.dispatchEvent(new CustomEvent(msg.type, {detail: msg.data}));
-            }
-            if (msg.data.sid) {
-              this.clientId = msg.data.sid;
-            }
+            this.handleJsonMessage(JSON.parse(event.data));
           } else {
             this.log("socket", "Unhandled message", event);
           }
@@ -1135,30 +1875,171 @@ export class ComfyApi extends EventTarget {
         this.log("socket", "Socket error", e);
 
         // If this is the first error and we're not already in reconnect mode
-        if (!reconnecting && !usePolling) {
-          usePolling = true;
+        if (this._state !== "reconnecting" && !this._pollingTimer) {
           this.log("socket", "WebSocket error, will try polling as fallback");
           this.setupPollingFallback();
         }
       };
 
-      if (!isReconnect) {
-        this.wsTimer = setInterval(() => {
-          if (reconnecting) return;
-          if (Date.now() - this.lastActivity > this.wsTimeout) {
-            reconnecting = true;
-            this.log("socket", "Connection timed out, reconnecting...");
-            this.reconnectWs(true);
-          }
-        }, this.wsTimeout / 2);
+      // Pong frames prove the connection is alive without counting as message activity
+      this.socket.on?.("pong", () => this.onPong?.());
+    }
+  }
+
+  /**
+   * Starts the liveness checks of an opened socket, replacing the timer of a previous one.
+   */
+  private startLivenessTimer() {
+    if (this.wsTimer) {
+      clearInterval(this.wsTimer);
+    }
+    this.wsTimer = setInterval(() => this.checkLiveness(), this.livenessPolicy.interval);
+  }
+
+  /**
+   * Checks that the WebSocket is alive. A socket that received a message recently is alive, a quiet one is probed
+   * with a ping frame or an HTTP request, so long running nodes don't cause reconnects.
+   */
+  private async checkLiveness() {
+    const {mode, interval, timeout, failures} = this.livenessPolicy;
+    if (this.probingLiveness || this._state === "reconnecting" || this._state === "offline" || !this.socket) {
+      return;
+    }
+    const {readyState} = this.socket;
+    if (readyState === WS_READY_STATE.CLOSING || readyState === WS_READY_STATE.CLOSED) {
+      this.log("socket", "Socket closed without close event, reconnecting...");
+      this.reconnectWs(true, "socket_closed");
+      return;
+    }
+    const quiet = Date.now() - this.lastActivity;
+    if (mode === "activity") {
+      if (quiet > timeout) {
+        this.log("socket", "Connection timed out, reconnecting...");
+        this.reconnectWs(true, "activity_timeout");
       }
+      return;
+    }
+    if (quiet < interval || readyState !== WS_READY_STATE.OPEN) {
+      this.livenessFailures = 0;
+      return;
+    }
+
+    const socket = this.socket;
+    const ping = mode === "auto" && !!socket.ping && !!socket.on;
+    this.probingLiveness = true;
+    const alive = ping
+      ? await this.pingSocket(socket, timeout)
+      : await this.pollStatus(timeout).then(() => true, () => false);
+    this.probingLiveness = false;
+    // The socket may have been replaced or the client destroyed while probing
+    if (socket !== this.socket || this.state === "reconnecting" || this.state === "destroyed") {
+      return;
+    }
+    if (alive) {
+      this.livenessFailures = 0;
+      return;
+    }
+    this.livenessFailures++;
+    this.log("socket", `Liveness probe failed (${this.livenessFailures}/${failures})`);
+    if (this.livenessFailures >= failures) {
+      this.reconnectWs(true, ping ? "ping_timeout" : "probe_failed");
     }
   }
 
   /**
-   * Sets up a polling mechanism as a fallback when WebSockets are unavailable
-   * Polls the server every 2 seconds for status updates
+   * Sends a ping frame and resolves to whether the pong was received in time.
+   */
+  private pingSocket(socket: WebSocketClient, timeout: number) {
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        this.onPong = null;
+        resolve(false);
+      }, timeout);
+      this.onPong = () => {
+        clearTimeout(timer);
+        this.onPong = null;
+        resolve(true);
+      };
+      try {
+        socket.ping!();
+      } catch (error) {
+        this.log("socket", "Failed to send ping", error);
+      }
+    });
+  }
+
+  /**
+   * Handles a JSON WebSocket message.
+   * @param msg The parsed message.
    */
+  private handleJsonMessage(msg: any) {
+    if (typeof msg?.type !== "string") {
+      this.log("socket", "Message without type", msg);
+      return;
+    }
+    this.dispatchEvent(new CustomEvent("all", {detail: msg}));
+    if (isServerMessageOf(msg, "logs")) {
+      this.dispatchEvent(new CustomEvent("terminal", {detail: msg.data.entries[0] || null}));
+    } else if (isServerMessage(msg)) {
+      this.dispatchEvent(new CustomEvent(msg.type, {detail: msg.data}));
+    } else {
+      if (isServerMessageType(msg.type)) {
+        this.log("socket", `Message ${msg.type} doesn't match the protocol`, msg.data);
+      }
+      this.dispatchEvent(new CustomEvent("unknown_message", {detail: {type: msg.type, data: msg.data, binary: false}}));
+      // Still dispatched under its own type: messages of custom nodes, and known messages of another shape, whose
+      // data is then not guaranteed to match its type
+      this.dispatchEvent(new CustomEvent(msg.type, {detail: msg.data}));
+    }
+    if (msg.data?.sid) {
+      this.clientId = msg.data.sid;
+    }
+  }
+
+  /**
+   * Handles a binary WebSocket frame.
+   * @param buffer The frame content.
+   */
+  private handleBinaryMessage(buffer: ArrayBuffer) {
+    const view = new DataView(buffer);
+    const eventType = view.getUint32(0);
+    switch (eventType) {
+      case BINARY_EVENT_TYPE.PREVIEW_IMAGE:
+      case BINARY_EVENT_TYPE.UNENCODED_PREVIEW_IMAGE: {
+        // [u32 event type][u32 image type][image]
+        const imageType = view.getUint32(4);
+        const imageBlob = new Blob([buffer.slice(8)], {
+          type: PREVIEW_IMAGE_MIME[imageType] ?? "image/jpeg"
+        });
+        this.dispatchEvent(new CustomEvent("b_preview", {detail: imageBlob}));
+        break;
+      }
+      case BINARY_EVENT_TYPE.TEXT: {
+        // [u32 event type][u32 node id length][node id][text]
+        const decoder = new TextDecoder();
+        const nodeIdLength = view.getUint32(4);
+        const nodeId = decoder.decode(buffer.slice(8, 8 + nodeIdLength));
+        const text = decoder.decode(buffer.slice(8 + nodeIdLength));
+        this.dispatchEvent(new CustomEvent("progress_text", {detail: {nodeId, text}}));
+        break;
+      }
+      case BINARY_EVENT_TYPE.PREVIEW_IMAGE_WITH_METADATA: {
+        // [u32 event type][u32 metadata length][metadata json][image]
+        const metadataLength = view.getUint32(4);
+        const metadata: TPreviewMetadata = JSON.parse(new TextDecoder().decode(buffer.slice(8, 8 + metadataLength)));
+        const imageBlob = new Blob([buffer.slice(8 + metadataLength)], {type: metadata.image_type});
+        this.dispatchEvent(new CustomEvent("b_preview_meta", {detail: {blob: imageBlob, metadata}}));
+        // Keep the legacy event for listeners that don't need the metadata
+        this.dispatchEvent(new CustomEvent("b_preview", {detail: imageBlob}));
+        break;
+      }
+      default:
+        this.dispatchEvent(
+          new CustomEvent("unknown_message", {detail: {type: eventType, data: buffer.slice(4), binary: true}})
+        );
+    }
+  }
+
   /**
    * Sets up a polling mechanism as a fallback when WebSockets are unavailable
    * Polls the server every 2 seconds for status updates
@@ -1184,6 +2065,9 @@ export class ComfyApi extends EventTarget {
         // Poll execution status
         const status = await this.pollStatus();
 
+        // Emit the execution events of the queued prompts
+        await this.pollingTracker.poll().catch((error) => this.log("socket", "Execution polling error", error));
+
         // Simulate an event dispatch similar to WebSocket
         this.dispatchEvent(new CustomEvent("status", {detail: status}));
 
@@ -1191,7 +2075,7 @@ export class ComfyApi extends EventTarget {
         this.resetLastActivity();
 
         // Try to re-establish WebSocket connection periodically
-        if (!this.socket || !this.socket || this.socket.readyState !== WebSocket.OPEN) {
+        if (!this.socket || this.socket.readyState !== WS_READY_STATE.OPEN) {
           this.log("socket", "Attempting to restore WebSocket connection");
           try {
             this.createSocket(true);
@@ -1214,6 +2098,10 @@ export class ComfyApi extends EventTarget {
 
     // Using setInterval and casting to the expected type
     this._pollingTimer = setInterval(pollFn, POLLING_INTERVAL) as any;
+    // While `init` runs, it picks the state once done
+    if (this._state !== "connecting") {
+      this.setState("degraded-polling");
+    }
 
     this.log("socket", `Polling started with interval of ${POLLING_INTERVAL}ms`);
   }
@@ -1223,12 +2111,14 @@ export class ComfyApi extends EventTarget {
    * @experimental API that may change in future versions
    * @returns A promise that resolves to an array of ModelFolder objects.
    */
-  async getModelFolders(): Promise<ModelFolder[]> {
+  async getModelFolders(options?: RequestOptions): Promise<ModelFolder[]> {
     try {
-      const response = await this.fetchApi("/experiment/models");
+      const response = await this.fetchApi("/experiment/models", options);
       if (!response.ok) {
         this.log("getModelFolders", "Failed to fetch model folders", response);
-        throw new Error(`Failed to fetch model folders: ${response.status} ${response.statusText}`);
+        throw await ComfyHttpError.fromResponse(response, "/experiment/models", {
+          message: "Failed to fetch model folders"
+        });
       }
       return response.json();
     } catch (error) {
@@ -1243,12 +2133,13 @@ export class ComfyApi extends EventTarget {
    * @param folder - The name of the model folder.
    * @returns A promise that resolves to an array of ModelFile objects.
    */
-  async getModelFiles(folder: string): Promise<ModelFile[]> {
+  async getModelFiles(folder: string, options?: RequestOptions): Promise<ModelFile[]> {
     try {
-      const response = await this.fetchApi(`/experiment/models/${encodeURIComponent(folder)}`);
+      const route = `/experiment/models/${encodeURIComponent(folder)}`;
+      const response = await this.fetchApi(route, options);
       if (!response.ok) {
         this.log("getModelFiles", "Failed to fetch model files", {folder, response});
-        throw new Error(`Failed to fetch model files: ${response.status} ${response.statusText}`);
+        throw await ComfyHttpError.fromResponse(response, route, {message: "Failed to fetch model files"});
       }
       return response.json();
     } catch (error) {
@@ -1265,15 +2156,19 @@ export class ComfyApi extends EventTarget {
    * @param filename - The name of the model file.
    * @returns A promise that resolves to a ModelPreviewResponse object containing the preview image data.
    */
-  async getModelPreview(folder: string, pathIndex: number, filename: string): Promise<ModelPreviewResponse> {
+  async getModelPreview(
+    folder: string,
+    pathIndex: number,
+    filename: string,
+    options?: RequestOptions
+  ): Promise<ModelPreviewResponse> {
     try {
-      const response = await this.fetchApi(
-        `/experiment/models/preview/${encodeURIComponent(folder)}/${pathIndex}/${encodeURIComponent(filename)}`
-      );
+      const route = `/experiment/models/preview/${encodeURIComponent(folder)}/${pathIndex}/${encodeURIComponent(filename)}`;
+      const response = await this.fetchApi(route, options);
 
       if (!response.ok) {
         this.log("getModelPreview", "Failed to fetch model preview", {folder, pathIndex, filename, response});
-        throw new Error(`Failed to fetch model preview: ${response.status} ${response.statusText}`);
+        throw await ComfyHttpError.fromResponse(response, route, {message: "Failed to fetch model preview"});
       }
 
       const contentType = response.headers.get("content-type") || "image/webp";
@@ -1,3 +1,65 @@
+import { TConnectionState } from "./types/event";
+
 export const LOAD_CHECKPOINTS_EXTENSION = "CheckpointLoaderSimple";
 export const LOAD_LORAS_EXTENSION = "LoraLoader";
 export const LOAD_KSAMPLER_EXTENSION = "KSampler";
+
+export const DEFAULT_REQUEST_TIMEOUT = 60000;
+export const DEFAULT_RETRY_POLICY = {
+  retries: 2,
+  baseDelay: 500,
+  maxDelay: 5000,
+  retryOn: [408, 429, 500, 502, 503, 504]
+};
+export const DEFAULT_RECONNECT_POLICY = {
+  maxAttempts: 10,
+  baseDelay: 1000,
+  maxDelay: 15000,
+  jitter: 0.3
+};
+export const DEFAULT_LIVENESS_POLICY = {
+  mode: "auto" as const,
+  interval: 5000,
+  timeout: 10000,
+  failures: 2
+};
+export const DEFAULT_NODE_DEFS_CACHE_POLICY = {
+  ttl: 300000
+};
+export const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * Allowed transitions of the connection state machine:
+ * - `init` goes from `idle` or `offline` to `connecting`, then to `ready`, `degraded-polling` or `offline`.
+ * - A dropped socket goes to `reconnecting`, then back to `ready` or `degraded-polling`, or `offline` once it
+ *   gives up. The polling fallback may still restore the socket while `offline`.
+ * - `destroyed` is final.
+ */
+export const CONNECTION_STATE_TRANSITIONS: Record<TConnectionState, TConnectionState[]> = {
+  idle: ["connecting", "destroyed"],
+  connecting: ["ready", "degraded-polling", "reconnecting", "offline", "destroyed"],
+  ready: ["degraded-polling", "reconnecting", "offline", "destroyed"],
+  "degraded-polling": ["ready", "reconnecting", "offline", "destroyed"],
+  reconnecting: ["ready", "degraded-polling", "offline", "destroyed"],
+  offline: ["connecting", "ready", "degraded-polling", "reconnecting", "destroyed"],
+  destroyed: []
+};
+
+/**
+ * Types of the binary WebSocket frames, read from the first 4 bytes of the frame.
+ */
+export const BINARY_EVENT_TYPE = {
+  PREVIEW_IMAGE: 1,
+  UNENCODED_PREVIEW_IMAGE: 2,
+  TEXT: 3,
+  PREVIEW_IMAGE_WITH_METADATA: 4
+} as const;
+
+/**
+ * Mime types of the `image_type` field of preview frames.
+ */
+export const PREVIEW_IMAGE_MIME: Record<number, string> = {
+  1: "image/jpeg",
+  2: "image/png",
+  3: "image/webp"
+};
@@ -0,0 +1,188 @@
+/**
+ * Timing of a node executed by a prompt.
+ */
+export type TNodeTrace = {
+  node: string;
+  classType?: string;
+  /**
+   * When the node started, from its `executing` event.
+   */
+  start: number;
+  /**
+   * When the node ended: its `executed` event for output nodes, otherwise the start of the next node
+   * or the end of the execution.
+   */
+  end?: number;
+};
+
+export type TErrorTrace = {
+  time: number;
+  error: Error;
+  /**
+   * The node that raised the error, if reported by the server.
+   */
+  node?: string;
+};
+
+/**
+ * A Chrome trace-event, see the Trace Event Format.
+ */
+export type TChromeTraceEvent = {
+  name: string;
+  cat: string;
+  ph: "X" | "i";
+  ts: number;
+  dur?: number;
+  s?: "g" | "p" | "t";
+  pid: number;
+  tid: number;
+  args?: Record<string, unknown>;
+};
+
+/**
+ * Timeline of a `CallWrapper` run, all times are timestamps in milliseconds.
+ */
+export class ExecutionTrace {
+  promptId?: string;
+  /**
+   * When the prompt was queued, not set for attached prompts.
+   */
+  enqueuedAt?: number;
+  startedAt?: number;
+  endedAt?: number;
+  cachedNodes: string[] = [];
+  nodes: TNodeTrace[] = [];
+  errors: TErrorTrace[] = [];
+
+  private now: () => number;
+  private current?: TNodeTrace;
+
+  /**
+   * @param now - The clock, in milliseconds.
+   */
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  enqueued(promptId: string) {
+    this.promptId = promptId;
+    this.enqueuedAt = this.now();
+  }
+
+  attached(promptId: string) {
+    this.promptId = promptId;
+  }
+
+  executionStart() {
+    this.startedAt ??= this.now();
+  }
+
+  cached(nodes: string[]) {
+    this.executionStart();
+    this.cachedNodes.push(...nodes.filter((node) => !this.cachedNodes.includes(node)));
+  }
+
+  /**
+   * Records the start of a node, or the end of the execution when `node` is `null`.
+   */
+  executing(node: string | null, classType?: string) {
+    this.executionStart();
+    this.closeCurrent();
+    if (node !== null) {
+      this.current = { node, classType, start: this.now() };
+      this.nodes.push(this.current);
+    }
+  }
+
+  /**
+   * Records the output of a node, which ends it.
+   */
+  executed(node: string) {
+    if (this.current?.node === node) {
+      this.closeCurrent();
+    }
+  }
+
+  error(error: Error) {
+    const node = (error.cause as { node_id?: unknown } | undefined)?.node_id;
+    this.errors.push({ time: this.now(), error, node: typeof node === "string" ? node : undefined });
+  }
+
+  /**
+   * Records the end of the run, later calls are ignored.
+   */
+  end() {
+    if (this.endedAt !== undefined) {
+      return;
+    }
+    this.closeCurrent();
+    this.endedAt = this.now();
+  }
+
+  /**
+   * Duration of each node in milliseconds, slowest first.
+   */
+  get slowestNodes(): (TNodeTrace & { duration: number })[] {
+    return this.nodes
+      .filter((node) => node.end !== undefined)
+      .map((node) => ({ ...node, duration: node.end! - node.start }))
+      .sort((a, b) => b.duration - a.duration);
+  }
+
+  toJSON() {
+    return {
+      promptId: this.promptId,
+      enqueuedAt: this.enqueuedAt,
+      startedAt: this.startedAt,
+      endedAt: this.endedAt,
+      cachedNodes: [...this.cachedNodes],
+      nodes: this.nodes.map((node) => ({ ...node })),
+      errors: this.errors.map(({ time, error, node }) => ({ time, node, name: error.name, message: error.message }))
+    };
+  }
+
+  /**
+   * Exports the trace as Chrome trace-event JSON, to open in `chrome://tracing` or Perfetto.
+   * The queue wait, the execution and each node are complete events, the cached nodes and the errors are instant events.
+   */
+  toChromeTrace(): { traceEvents: TChromeTraceEvent[]; displayTimeUnit: "ms" } {
+    const origin = this.enqueuedAt ?? this.startedAt ?? this.nodes[0]?.start ?? 0;
+    const end = this.endedAt ?? this.now();
+    const ts = (time: number) => Math.round((time - origin) * 1000);
+    const span = (
+      name: string,
+      cat: string,
+      tid: number,
+      start: number,
+      stop: number,
+      args?: Record<string, unknown>
+    ) => ({ name, cat, ph: "X", ts: ts(start), dur: ts(stop) - ts(start), pid: 1, tid, args }) as TChromeTraceEvent;
+    const instant = (name: string, cat: string, time: number, args?: Record<string, unknown>) =>
+      ({ name, cat, ph: "i", s: "g", ts: ts(time), pid: 1, tid: 1, args }) as TChromeTraceEvent;
+
+    const events: TChromeTraceEvent[] = [];
+    if (this.enqueuedAt !== undefined) {
+      events.push(span("queued", "prompt", 1, this.enqueuedAt, this.startedAt ?? end, { prompt_id: this.promptId }));
+    }
+    if (this.startedAt !== undefined) {
+      events.push(span("execution", "prompt", 1, this.startedAt, end, { prompt_id: this.promptId }));
+    }
+    if (this.cachedNodes.length > 0) {
+      events.push(instant("cached", "prompt", this.startedAt ?? origin, { nodes: this.cachedNodes }));
+    }
+    for (const { node, classType, start, end: stop } of this.nodes) {
+      events.push(span(classType ? `${classType} #${node}` : `#${node}`, "node", 2, start, stop ?? end, { node }));
+    }
+    for (const { time, error, node } of this.errors) {
+      events.push(instant(error.name, "error", time, { message: error.message, node }));
+    }
+    return { traceEvents: events, displayTimeUnit: "ms" };
+  }
+
+  private closeCurrent() {
+    if (this.current) {
+      this.current.end = this.now();
+      this.current = undefined;
+    }
+  }
+}
@@ -13,14 +13,10 @@ import {
   IModelInstallRequest,
   INodeMapItem
 } from "src/types/manager";
+import { FetchOptions } from "src/types/api";
+import { ComfyHttpError } from "src/types/error";
 import { AbstractFeature } from "./abstract";
 
-export interface FetchOptions extends RequestInit {
-  headers?: {
-    [key: string]: string;
-  };
-}
-
 export class ManagerFeature extends AbstractFeature {
   async checkSupported() {
     const data = await this.getVersion().catch(() => false);
@@ -41,6 +37,16 @@ export class ManagerFeature extends AbstractFeature {
     return this.client.fetchApi(path, options);
   }
 
+  /**
+   * Builds the error of a failed manager call, typed from the response when the call was sent.
+   */
+  private async toError(message: string, route: string, data: Response | false, method?: string) {
+    if (data) {
+      return ComfyHttpError.fromResponse(data, route, { method, message });
+    }
+    return new Error(`${message}: ComfyUI-Manager is not supported`);
+  }
+
   /**
    * Set the default state to be displayed in the main menu when the browser starts.
    *
@@ -59,7 +65,7 @@ export class ManagerFeature extends AbstractFeature {
     if (data && data.ok) {
       return data.text() as Promise<string>;
     }
-    throw new Error("Failed to get version", { cause: data });
+    throw await ComfyHttpError.fromResponse(data, callURL, { message: "Failed to get version" });
   }
 
   /**
@@ -90,7 +96,7 @@ export class ManagerFeature extends AbstractFeature {
       }
       return listNodes;
     }
-    throw new Error("Failed to get node map list", { cause: data });
+    throw await this.toError("Failed to get node map list", `/customnode/getmappings?mode=${mode}`, data);
   }
 
   /**
@@ -121,6 +127,7 @@ export class ManagerFeature extends AbstractFeature {
       if (data.status === 200) {
         return { type: EUpdateResult.UNCHANGED };
       }
+      this.client.invalidateNodeDefs();
       return {
         type: EUpdateResult.SUCCESS,
         data: (await data.json()) as { updated: number; failed: number }
@@ -141,6 +148,7 @@ export class ManagerFeature extends AbstractFeature {
         case 200:
           return EUpdateResult.UNCHANGED;
         case 201:
+          this.client.invalidateNodeDefs();
           return EUpdateResult.SUCCESS;
         default:
           return EUpdateResult.FAILED;
@@ -171,7 +179,11 @@ export class ManagerFeature extends AbstractFeature {
     if (data && data.ok) {
       return data.json();
     }
-    throw new Error("Failed to get extension list", { cause: data });
+    throw await this.toError(
+      "Failed to get extension list",
+      `/customnode/getlist?mode=${mode}&skip_update=${skipUpdate}`,
+      data
+    );
   }
 
   /**
@@ -205,7 +217,7 @@ export class ManagerFeature extends AbstractFeature {
       if (!result) return mode;
       return result as TPreviewMethod;
     }
-    throw new Error("Failed to set preview method", { cause: data });
+    throw await this.toError("Failed to set preview method", callURL, data);
   }
 
   /**
@@ -221,9 +233,10 @@ export class ManagerFeature extends AbstractFeature {
       body: JSON.stringify(config)
     });
     if (data && data.ok) {
+      this.client.invalidateNodeDefs();
       return true;
     }
-    throw new Error("Failed to install extension", { cause: data });
+    throw await this.toError("Failed to install extension", "/customnode/install", data, "POST");
   }
 
   /**
@@ -243,9 +256,10 @@ export class ManagerFeature extends AbstractFeature {
       body: JSON.stringify(config)
     });
     if (data && data.ok) {
+      this.client.invalidateNodeDefs();
       return true;
     }
-    throw new Error("Failed to fix extension installation", { cause: data });
+    throw await this.toError("Failed to fix extension installation", "/customnode/fix", data, "POST");
   }
 
   /**
@@ -261,9 +275,10 @@ export class ManagerFeature extends AbstractFeature {
       body: url
     });
     if (data && data.ok) {
+      this.client.invalidateNodeDefs();
       return true;
     }
-    throw new Error("Failed to install extension from git", { cause: data });
+    throw await this.toError("Failed to install extension from git", "/customnode/install/git_url", data, "POST");
   }
 
   /**
@@ -279,9 +294,10 @@ export class ManagerFeature extends AbstractFeature {
       body: packages.join(" ")
     });
     if (data && data.ok) {
+      this.client.invalidateNodeDefs();
       return true;
     }
-    throw new Error("Failed to install pip's packages", { cause: data });
+    throw await this.toError("Failed to install pip's packages", "/customnode/install/pip", data, "POST");
   }
 
   /**
@@ -297,9 +313,10 @@ export class ManagerFeature extends AbstractFeature {
       body: JSON.stringify(config)
     });
     if (data && data.ok) {
+      this.client.invalidateNodeDefs();
       return true;
     }
-    throw new Error("Failed to uninstall extension", { cause: data });
+    throw await this.toError("Failed to uninstall extension", "/customnode/uninstall", data, "POST");
   }
 
   /**
@@ -315,9 +332,10 @@ export class ManagerFeature extends AbstractFeature {
       body: JSON.stringify(config)
     });
     if (data && data.ok) {
+      this.client.invalidateNodeDefs();
       return true;
     }
-    throw new Error("Failed to update extension", { cause: data });
+    throw await this.toError("Failed to update extension", "/customnode/update", data, "POST");
   }
 
   /**
@@ -333,9 +351,10 @@ export class ManagerFeature extends AbstractFeature {
       body: JSON.stringify(config)
     });
     if (data && data.ok) {
+      this.client.invalidateNodeDefs();
       return true;
     }
-    throw new Error("Failed to set active extension", { cause: data });
+    throw await this.toError("Failed to set active extension", "/customnode/toggle_active", data, "POST");
   }
 
   /**
@@ -351,8 +370,9 @@ export class ManagerFeature extends AbstractFeature {
       body: JSON.stringify(info)
     });
     if (data && data.ok) {
+      this.client.invalidateNodeDefs();
       return true;
     }
-    throw new Error("Failed to install model", { cause: data });
+    throw await this.toError("Failed to install model", "/model/install", data, "POST");
   }
 }
@@ -1,5 +1,6 @@
 import { AbstractFeature } from "./abstract";
-import { FetchOptions } from "./manager";
+import { FetchOptions } from "src/types/api";
+import { ComfyHttpError } from "src/types/error";
 
 const SYSTEM_MONITOR_EXTENSION = encodeURIComponent("Primitive boolean [Crystools]");
 
@@ -50,11 +51,18 @@ export class MonitoringFeature extends AbstractFeature {
     this.listeners = [];
   }
 
+  /**
+   * Calls the Crystools API, throws a `ComfyHttpError` if the call fails.
+   */
   private async fetchApi(path: string, options?: FetchOptions) {
     if (!this.supported) {
       return false;
     }
-    return this.client.fetchApi(path, options);
+    const response = await this.client.fetchApi(path, options);
+    if (!response.ok) {
+      throw await ComfyHttpError.fromResponse(response, path, { method: options?.method });
+    }
+    return response;
   }
 
   public on<K extends keyof TMonitorEventMap>(
@@ -73,7 +81,7 @@ export class MonitoringFeature extends AbstractFeature {
     options?: EventListenerOptions | boolean
   ): void {
     this.removeEventListener(type, callback as any, options);
-    this.listeners = this.listeners.filter((listener) => listener.event !== type && listener.handler !== callback);
+    this.listeners = this.listeners.filter((listener) => listener.event !== type || listener.handler !== callback);
   }
 
   /**
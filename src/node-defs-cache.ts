@@ -0,0 +1,185 @@
+import { readFile, removeFile, writeFile } from "./node-fs";
+import { NodeDefsCachePolicy, NodeDefsResponse } from "./types/api";
+
+type TNodeDefsEntry = {
+  defs: NodeDefsResponse | null;
+  /**
+   * Wall clock time in milliseconds, so persisted entries expire across process runs.
+   */
+  expiresAt: number;
+};
+
+type TPersistedNodeDefs = {
+  host: string;
+  entries: Record<string, TNodeDefsEntry>;
+};
+
+/**
+ * Key of the full `/object_info` response, node names are never empty.
+ */
+const ALL_NODES = "";
+
+const abortable = <T>(promise: Promise<T>, signal: AbortSignal) =>
+  new Promise<T>((resolve, reject) => {
+    if (signal.aborted) {
+      return reject(signal.reason);
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+
+/**
+ * Cache of the node definitions of a server, shared by the `getNodeDefs` calls of a client.
+ *
+ * Concurrent calls for the same node share a single request, and a fresh `/object_info` response also answers the
+ * calls for a single node. Responses of requests started before an invalidation are dropped.
+ */
+export class NodeDefsCache {
+  private readonly host: string;
+  private readonly policy: NodeDefsCachePolicy;
+  private readonly log: (fnName: string, message: string, data?: any) => void;
+  private readonly now: () => number;
+  private entries = new Map<string, TNodeDefsEntry>();
+  private pending = new Map<string, Promise<NodeDefsResponse | null>>();
+  private generation = 0;
+  private restored: Promise<void> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @param host - The server the definitions belong to, persisted entries of another server are ignored.
+   * @param policy - TTL and persistence of the cache.
+   * @param log - Logger of the persistence failures.
+   * @param now - The clock, in milliseconds.
+   */
+  constructor(
+    host: string,
+    policy: NodeDefsCachePolicy,
+    log: (fnName: string, message: string, data?: any) => void = () => {},
+    now: () => number = Date.now
+  ) {
+    this.host = host;
+    this.policy = policy;
+    this.log = log;
+    this.now = now;
+  }
+
+  /**
+   * Returns the cached definitions of a node, or of every node without `nodeName`, loading them when missing or
+   * expired. The `signal` only aborts the wait of this call, the shared request goes on for the other callers.
+   */
+  async get(
+    nodeName: string | undefined,
+    load: () => Promise<NodeDefsResponse | null>,
+    signal?: AbortSignal
+  ): Promise<NodeDefsResponse | null> {
+    signal?.throwIfAborted();
+    await this.restore();
+    const key = nodeName || ALL_NODES;
+    const cached = this.lookup(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    let pending = this.pending.get(key);
+    if (!pending) {
+      const generation = this.generation;
+      const request = load().then((defs) => {
+        if (generation === this.generation) {
+          this.entries.set(key, { defs, expiresAt: this.now() + this.policy.ttl });
+          this.persist();
+        }
+        return defs;
+      });
+      pending = request.finally(() => {
+        if (this.pending.get(key) === pending) {
+          this.pending.delete(key);
+        }
+      });
+      this.pending.set(key, pending);
+    }
+    return signal ? abortable(pending, signal) : pending;
+  }
+
+  /**
+   * Drops every cached definition, including the persisted ones, and detaches the pending requests so their
+   * responses are not cached.
+   */
+  invalidate() {
+    this.generation++;
+    this.entries.clear();
+    this.pending.clear();
+    // The persisted entries are stale too, they must not be restored later
+    this.restored = Promise.resolve();
+    if (this.policy.persistPath) {
+      this.write((path) => removeFile(path));
+    }
+  }
+
+  /**
+   * Resolves once the pending writes of the persisted file are done.
+   */
+  flush() {
+    return this.writing;
+  }
+
+  private lookup(key: string): NodeDefsResponse | null | undefined {
+    const now = this.now();
+    const entry = this.entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      return entry.defs;
+    }
+    const all = this.entries.get(ALL_NODES);
+    if (key === ALL_NODES || !all || all.expiresAt <= now) {
+      return undefined;
+    }
+    const def = all.defs?.[key];
+    return def ? { [key]: def } : null;
+  }
+
+  private restore() {
+    this.restored ??= this.read();
+    return this.restored;
+  }
+
+  private async read() {
+    const path = this.policy.persistPath;
+    if (!path) {
+      return;
+    }
+    const generation = this.generation;
+    try {
+      const persisted: TPersistedNodeDefs = JSON.parse(await readFile(path, "utf8"));
+      if (persisted.host !== this.host || generation !== this.generation) {
+        return;
+      }
+      const now = this.now();
+      for (const [key, entry] of Object.entries(persisted.entries ?? {})) {
+        if (entry.expiresAt > now && !this.entries.has(key)) {
+          this.entries.set(key, entry);
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.log("NodeDefsCache", "Failed to read the persisted node definitions", error);
+      }
+    }
+  }
+
+  private persist() {
+    if (!this.policy.persistPath) {
+      return;
+    }
+    const persisted: TPersistedNodeDefs = { host: this.host, entries: Object.fromEntries(this.entries) };
+    this.write((path) => writeFile(path, JSON.stringify(persisted)));
+  }
+
+  /**
+   * Writes are chained so the file always ends up with the latest state.
+   */
+  private write(operation: (path: string) => Promise<void>) {
+    const path = this.policy.persistPath!;
+    this.writing = this.writing
+      .then(() => operation(path))
+      .catch((error) => this.log("NodeDefsCache", "Failed to persist the node definitions", error));
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Browser replacement of `node-fs.ts`, the file system is only available in NodeJS.
+ */
+
+const unsupported = async (): Promise<never> => {
+  throw new Error("The file system is only available in NodeJS");
+};
+
+export function readFile(path: string): Promise<Uint8Array>;
+export function readFile(path: string, encoding: "utf8"): Promise<string>;
+export function readFile(_path: string, _encoding?: "utf8"): Promise<Uint8Array | string> {
+  return unsupported();
+}
+
+export const writeFile = (_path: string, _data: string | Uint8Array): Promise<void> => unsupported();
+
+export const removeFile = (_path: string): Promise<void> => unsupported();
+
+export const joinPath = (...paths: string[]) => paths.filter(Boolean).join("/");
@@ -0,0 +1,28 @@
+import { mkdir, readFile as fsReadFile, rm, writeFile as fsWriteFile } from "fs/promises";
+import { dirname, join } from "path";
+
+/**
+ * File system access of the NodeJS only features: uploads from a path, saved outputs and persisted node definitions.
+ * The browser build replaces this module with `node-fs.browser.ts`, so it has no NodeJS imports.
+ */
+
+export function readFile(path: string): Promise<Buffer>;
+export function readFile(path: string, encoding: "utf8"): Promise<string>;
+export function readFile(path: string, encoding?: "utf8") {
+  return fsReadFile(path, encoding);
+}
+
+/**
+ * Writes a file, creating the missing directories. An existing file is overwritten.
+ */
+export const writeFile = async (path: string, data: string | Uint8Array) => {
+  await mkdir(dirname(path), { recursive: true });
+  await fsWriteFile(path, data);
+};
+
+/**
+ * Removes a file, missing files are ignored.
+ */
+export const removeFile = (path: string) => rm(path, { force: true });
+
+export const joinPath = (...paths: string[]) => join(...paths);
@@ -0,0 +1,260 @@
+import { ComfyApi } from "./client";
+import { joinPath, writeFile } from "./node-fs";
+import { mapConcurrent } from "./tools";
+import { ImageInfo, RequestOptions } from "./types/api";
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_NAME_PATTERN = "{filename}";
+
+const MIME_TYPES: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  gif: "image/gif",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  svg: "image/svg+xml",
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  mkv: "video/x-matroska",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  opus: "audio/opus",
+  m4a: "audio/mp4",
+  txt: "text/plain",
+  json: "application/json",
+  glb: "model/gltf-binary",
+  gltf: "model/gltf+json",
+  obj: "model/obj"
+};
+
+/**
+ * How the content of a downloaded output is returned.
+ *
+ * - "blob": A `Blob`.
+ * - "buffer": A `Uint8Array`, a `Buffer` in NodeJS.
+ * - "stream": A `ReadableStream` of the response body, not buffered in memory.
+ */
+export type TOutputFormat = "blob" | "buffer" | "stream";
+
+export type TOutputContent<F extends TOutputFormat> = F extends "buffer"
+  ? Uint8Array
+  : F extends "stream"
+    ? ReadableStream<Uint8Array>
+    : Blob;
+
+/**
+ * A file, or a text, produced by an output node.
+ */
+export type TOutputAsset<F extends TOutputFormat = "blob"> = {
+  /**
+   * The output key mapped in the `PromptBuilder`, or the node id for unmapped nodes.
+   */
+  key: string;
+  nodeId: string;
+  /**
+   * The field of the node output holding the asset, e.g. `images`, `gifs`, `audio`, `video` or `text`.
+   */
+  kind: string;
+  /**
+   * Position of the asset in its field.
+   */
+  index: number;
+  mimeType: string;
+  /**
+   * The source file on the server, not set for text outputs.
+   */
+  info?: ImageInfo;
+  data: TOutputContent<F>;
+};
+
+/**
+ * An output asset written to the disk.
+ */
+export type TSavedOutputAsset = Omit<TOutputAsset, "data"> & {
+  path: string;
+};
+
+export type TOutputDownloadOptions<F extends TOutputFormat = "blob"> = {
+  /**
+   * Maximum number of parallel downloads, default is 4.
+   */
+  concurrency?: number;
+  /**
+   * Fields of the node outputs to resolve, default is every field holding files or texts.
+   */
+  kinds?: string[];
+  format?: F;
+} & Pick<RequestOptions, "signal" | "timeout">;
+
+export type TOutputSaveOptions = Omit<TOutputDownloadOptions, "format"> & {
+  /**
+   * Name of the written files, relative to the directory. Supports `{key}`, `{node}`, `{kind}`, `{index}`,
+   * `{filename}`, `{name}` (file name without extension), `{ext}` (with its dot) and `{subfolder}`.
+   * Default is `{filename}`.
+   */
+  pattern?: string;
+};
+
+/**
+ * A node output and where it comes from.
+ */
+export type TOutputSource = {
+  key: string;
+  nodeId: string;
+  output: Record<string, any> | undefined;
+};
+
+type TPendingAsset = Omit<TOutputAsset, "data" | "mimeType"> & {
+  text?: string;
+};
+
+const isImageInfo = (value: any): value is ImageInfo =>
+  !!value && typeof value === "object" && typeof value.filename === "string" && typeof value.type === "string";
+
+const extensionOf = (filename: string) => {
+  const dot = filename.lastIndexOf(".");
+  return dot > 0 ? filename.slice(dot + 1).toLowerCase() : "";
+};
+
+/**
+ * Downloads the files listed by the outputs of a job, with the credentials of the client.
+ */
+export class OutputResolver {
+  private client: ComfyApi;
+
+  constructor(client: ComfyApi) {
+    this.client = client;
+  }
+
+  /**
+   * Lists the assets of node outputs: the file lists (`{ filename, subfolder, type }` items) and the `text` field.
+   */
+  private collect(sources: TOutputSource[], kinds?: string[]): TPendingAsset[] {
+    const assets: TPendingAsset[] = [];
+    for (const { key, nodeId, output } of sources) {
+      for (const [kind, items] of Object.entries(output ?? {})) {
+        if (!Array.isArray(items) || (kinds && !kinds.includes(kind))) {
+          continue;
+        }
+        items.forEach((item, index) => {
+          if (isImageInfo(item)) {
+            assets.push({ key, nodeId, kind, index, info: item });
+          } else if (kind === "text" && typeof item === "string") {
+            assets.push({ key, nodeId, kind, index, text: item });
+          }
+        });
+      }
+    }
+    return assets;
+  }
+
+  /**
+   * Downloads the assets of node outputs.
+   *
+   * @returns The assets in the order of the outputs.
+   */
+  async download<F extends TOutputFormat = "blob">(
+    sources: TOutputSource[],
+    options?: TOutputDownloadOptions<F>
+  ): Promise<TOutputAsset<F>[]> {
+    const { concurrency = DEFAULT_CONCURRENCY, kinds, format = "blob", ...requestOptions } = options ?? {};
+    return mapConcurrent(
+      this.collect(sources, kinds),
+      concurrency,
+      (asset) => this.fetchAsset(asset, format as F, requestOptions),
+      // The streams of a failed download are not returned, their bodies must not stay open
+      ({ data }) => {
+        if (data instanceof ReadableStream) {
+          data.cancel().catch(() => {});
+        }
+      }
+    );
+  }
+
+  /**
+   * Downloads the assets of node outputs into a directory, only available in NodeJS.
+   * Missing directories are created and existing files are overwritten.
+   *
+   * @returns The written assets in the order of the outputs.
+   */
+  async save(dir: string, sources: TOutputSource[], options?: TOutputSaveOptions): Promise<TSavedOutputAsset[]> {
+    const {
+      concurrency = DEFAULT_CONCURRENCY,
+      kinds,
+      pattern = DEFAULT_NAME_PATTERN,
+      ...requestOptions
+    } = options ?? {};
+    return mapConcurrent(this.collect(sources, kinds), concurrency, async (pending) => {
+      const { data, ...asset } = await this.fetchAsset(pending, "buffer", requestOptions);
+      const path = joinPath(dir, this.formatName(pattern, pending));
+      await writeFile(path, data);
+      return { ...asset, path };
+    });
+  }
+
+  /**
+   * Renders the naming pattern of an asset. Values are stripped of path separators,
+   * so only the pattern can create sub directories.
+   */
+  private formatName(pattern: string, asset: TPendingAsset) {
+    const filename = asset.info?.filename ?? `${asset.nodeId}_${asset.index}.txt`;
+    const dot = filename.lastIndexOf(".");
+    const values: Record<string, string> = {
+      key: asset.key,
+      node: asset.nodeId,
+      kind: asset.kind,
+      index: String(asset.index),
+      filename,
+      name: dot > 0 ? filename.slice(0, dot) : filename,
+      ext: dot > 0 ? filename.slice(dot) : "",
+      subfolder: asset.info?.subfolder ?? ""
+    };
+    return pattern.replace(/\{(\w+)\}/g, (match, token: string) =>
+      token in values ? values[token].replace(/[\\/]/g, "_").replace(/^\.+$/, "_") : match
+    );
+  }
+
+  private async fetchAsset<F extends TOutputFormat>(
+    { text, ...asset }: TPendingAsset,
+    format: F,
+    options: Pick<RequestOptions, "signal" | "timeout">
+  ): Promise<TOutputAsset<F>> {
+    if (text !== undefined) {
+      const blob = new Blob([text], { type: MIME_TYPES.txt });
+      return { ...asset, mimeType: MIME_TYPES.txt, data: (await this.convert(blob, format)) as TOutputContent<F> };
+    }
+    if (format === "stream") {
+      const response = await this.client.fetchImage(asset.info!, options);
+      const mimeType = this.mimeTypeOf(asset.info!.filename, response.headers.get("content-type"));
+      const data = response.body ?? (await response.blob()).stream();
+      return { ...asset, mimeType, data: data as TOutputContent<F> };
+    }
+    // Unlike the stream, the body is read here, within the timeout and the signal of the call
+    const blob = await this.client.getImage(asset.info!, options);
+    const mimeType = this.mimeTypeOf(asset.info!.filename, blob.type);
+    return { ...asset, mimeType, data: (await this.convert(blob, format)) as TOutputContent<F> };
+  }
+
+  private mimeTypeOf(filename: string, contentType?: string | null) {
+    return MIME_TYPES[extensionOf(filename)] ?? (contentType?.split(";")[0].trim() || "application/octet-stream");
+  }
+
+  private async convert(blob: Blob, format: TOutputFormat) {
+    switch (format) {
+      case "buffer": {
+        const buffer = await blob.arrayBuffer();
+        return typeof Buffer !== "undefined" ? Buffer.from(buffer) : new Uint8Array(buffer);
+      }
+      case "stream":
+        return blob.stream();
+      default:
+        return blob;
+    }
+  }
+}
@@ -0,0 +1,196 @@
+import { ComfyApi } from "./client";
+import { HistoryEntry } from "./types/api";
+
+const TERMINAL_EVENTS = ["execution_success", "execution_error", "execution_interrupted"] as const;
+
+/**
+ * Produces the execution events of the prompts queued by a client from `/queue` and `/history/{id}`.
+ *
+ * Used by the polling fallback when the WebSocket is unavailable: the events are dispatched on the client,
+ * so `CallWrapper` and other listeners behave the same in both modes, only with a coarser progress.
+ * Prompts queued by another client id never get their execution events on this socket, they are polled
+ * on every `status` message instead, which the server sends to every client when the queue changes.
+ */
+export class PollingExecutionTracker {
+  private client: ComfyApi;
+  /**
+   * Tracked prompt ids, mapped to whether `execution_start` was already emitted.
+   */
+  private prompts = new Map<string, boolean>();
+  /**
+   * Tracked prompts queued by another client id.
+   */
+  private foreign = new Set<string>();
+  private pollingForeign = false;
+  private pollForeignAgain = false;
+
+  private readonly handleStart = (ev: Event) => {
+    const promptId = (ev as CustomEvent).detail?.prompt_id;
+    if (this.prompts.has(promptId)) {
+      this.prompts.set(promptId, true);
+    }
+  };
+
+  private readonly handleEnd = (ev: Event) => {
+    this.untrack((ev as CustomEvent).detail?.prompt_id);
+  };
+
+  private readonly handleStatus = () => {
+    // The polling fallback already polls every prompt
+    if (this.foreign.size > 0 && this.client.state !== "degraded-polling") {
+      this.pollForeign();
+    }
+  };
+
+  constructor(client: ComfyApi) {
+    this.client = client;
+    // Not registered with `client.on` so `removeAllListeners` doesn't stop the tracking
+    this.client.addEventListener("execution_start", this.handleStart);
+    for (const type of TERMINAL_EVENTS) {
+      this.client.addEventListener(type, this.handleEnd);
+    }
+    this.client.addEventListener("status", this.handleStatus);
+  }
+
+  /**
+   * Starts tracking a queued prompt until one of its terminal events is dispatched.
+   *
+   * @param promptId - The ID of the queued prompt.
+   * @param foreign - Whether the prompt was queued by another client id, so it's polled even when the WebSocket works.
+   */
+  track(promptId: string, foreign = false) {
+    if (!this.prompts.has(promptId)) {
+      this.prompts.set(promptId, false);
+    }
+    if (foreign) {
+      this.foreign.add(promptId);
+    }
+  }
+
+  /**
+   * Stops tracking a prompt, e.g. once nothing listens to its events anymore.
+   */
+  untrack(promptId: string) {
+    this.prompts.delete(promptId);
+    this.foreign.delete(promptId);
+  }
+
+  /**
+   * Stops tracking the prompts that didn't start, once removed from the queue. Started prompts keep being
+   * tracked, removing them from the queue doesn't stop them.
+   *
+   * @param promptIds - The removed prompts, every tracked prompt by default.
+   */
+  untrackPending(promptIds: string[] = [...this.prompts.keys()]) {
+    for (const promptId of promptIds) {
+      if (this.prompts.get(promptId) === false) {
+        this.untrack(promptId);
+      }
+    }
+  }
+
+  /**
+   * Checks the queue and the history of the tracked prompts, and dispatches the events of their changes:
+   * `execution_start` once a prompt runs, then the events recorded in the history once it's done.
+   */
+  async poll(promptIds: string[] = [...this.prompts.keys()]) {
+    if (promptIds.length === 0) {
+      return;
+    }
+    const queue = await this.client.getQueue({ retry: false });
+    const running = new Set(queue.queue_running.map((item) => item.prompt_id));
+    const pending = new Set(queue.queue_pending.map((item) => item.prompt_id));
+
+    for (const promptId of promptIds) {
+      const started = this.prompts.get(promptId);
+      // Ended while the queue was fetched
+      if (started === undefined || pending.has(promptId)) {
+        continue;
+      }
+      if (running.has(promptId)) {
+        if (!started) {
+          this.dispatch("execution_start", { prompt_id: promptId, timestamp: Date.now() });
+        }
+        continue;
+      }
+      const history = await this.client.getHistory(promptId, { retry: false });
+      if (!this.prompts.has(promptId)) {
+        continue;
+      }
+      this.untrack(promptId);
+      if (history) {
+        this.replay(promptId, history, started);
+      }
+    }
+  }
+
+  /**
+   * Stops tracking every prompt and detaches from the client.
+   */
+  destroy() {
+    this.prompts.clear();
+    this.foreign.clear();
+    this.client.removeEventListener("status", this.handleStatus);
+    this.client.removeEventListener("execution_start", this.handleStart);
+    for (const type of TERMINAL_EVENTS) {
+      this.client.removeEventListener(type, this.handleEnd);
+    }
+  }
+
+  /**
+   * Polls the prompts queued by another client id, status messages received meanwhile are merged into a single
+   * next poll.
+   */
+  private async pollForeign() {
+    if (this.pollingForeign) {
+      this.pollForeignAgain = true;
+      return;
+    }
+    this.pollingForeign = true;
+    try {
+      await this.poll([...this.foreign]);
+    } catch (error) {
+      this.client.dispatchEvent(
+        new CustomEvent("log", {
+          detail: { fnName: "PollingExecutionTracker", message: "Polling failed", data: error }
+        })
+      );
+    } finally {
+      this.pollingForeign = false;
+      if (this.pollForeignAgain) {
+        this.pollForeignAgain = false;
+        this.pollForeign();
+      }
+    }
+  }
+
+  /**
+   * Dispatches the events of a finished prompt from its history entry.
+   */
+  private replay(promptId: string, history: HistoryEntry, started: boolean) {
+    const messages = history.status?.messages ?? [];
+    const findMessage = (type: string) => messages.find(([name]) => name === type)?.[1];
+
+    if (!started) {
+      this.dispatch("execution_start", findMessage("execution_start") ?? { prompt_id: promptId });
+    }
+    const cached = findMessage("execution_cached");
+    if (cached) {
+      this.dispatch("execution_cached", cached);
+    }
+    for (const [node, output] of Object.entries(history.outputs ?? {})) {
+      this.dispatch("executed", { prompt_id: promptId, node, output });
+    }
+
+    const terminal = messages.find(([name]) => (TERMINAL_EVENTS as readonly string[]).includes(name));
+    if (terminal) {
+      this.dispatch(terminal[0], terminal[1]);
+    } else if (history.status?.completed) {
+      this.dispatch("execution_success", { prompt_id: promptId });
+    }
+  }
+
+  private dispatch(type: string, detail: any) {
+    this.client.dispatchEvent(new CustomEvent(type, { detail }));
+  }
+}
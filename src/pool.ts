@@ -114,7 +114,7 @@ export class ComfyPool extends EventTarget {
     options?: EventListenerOptions | boolean
   ) {
     this.removeEventListener(type, callback as any, options);
-    this.listeners = this.listeners.filter((listener) => listener.event !== type && listener.handler !== callback);
+    this.listeners = this.listeners.filter((listener) => listener.event !== type || listener.handler !== callback);
     return this;
   }
 
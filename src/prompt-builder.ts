@@ -1,12 +1,66 @@
 import { encodeNTPath, encodePosixPath } from "./tools";
-import { NodeData, OSType } from "./types/api";
+import { BinaryInput, ImageInfo, NodeData, OSType } from "./types/api";
 import { DeepKeys, Simplify } from "./types/tool";
 
+/**
+ * An input uploaded to the client running the job, right before the prompt is queued.
+ *
+ * - "binary": A `Blob`, `ArrayBuffer` or `Buffer`.
+ * - "file": A local file path, only available in NodeJS.
+ * - "image": An image already on the server, e.g. the output of another job.
+ */
+export type TPromptUpload =
+  | { __upload: "binary"; data: BinaryInput; fileName?: string }
+  | { __upload: "file"; path: string; fileName?: string }
+  | { __upload: "image"; image: ImageInfo };
+
+const toPromptUpload = (value: unknown): TPromptUpload | undefined => {
+  if (
+    (typeof Blob !== "undefined" && value instanceof Blob) ||
+    value instanceof ArrayBuffer ||
+    ArrayBuffer.isView(value)
+  ) {
+    return { __upload: "binary", data: value };
+  }
+  if (value && typeof value === "object" && "__upload" in value) {
+    return value as TPromptUpload;
+  }
+  return undefined;
+};
+
 export class PromptBuilder<I extends string, O extends string, T extends NodeData> {
   prompt: T;
   mapInputKeys: Partial<Record<I, string | string[]>> = {};
   mapOutputKeys: Partial<Record<O, string>> = {};
   bypassNodes: (keyof T)[] = [];
+  /**
+   * Inputs to upload before the prompt is queued, see `input`.
+   */
+  uploads: Partial<Record<I, TPromptUpload>> = {};
+
+  /**
+   * Marks a local file to upload as an input, only available in NodeJS.
+   *
+   * @param path - The path of the file.
+   * @param fileName - The name of the uploaded file, default is the name of the local file.
+   */
+  static file(path: string, fileName?: string): TPromptUpload {
+    return { __upload: "file", path, fileName };
+  }
+
+  /**
+   * Marks binary content to upload as an input with a given file name.
+   */
+  static binary(data: BinaryInput, fileName?: string): TPromptUpload {
+    return { __upload: "binary", data, fileName };
+  }
+
+  /**
+   * References an image already on the server, such as the output of a previous job.
+   */
+  static image(image: ImageInfo): TPromptUpload {
+    return { __upload: "image", image };
+  }
 
   constructor(prompt: T, inputKeys: I[], outputKeys: O[]) {
     this.prompt = structuredClone(prompt);
@@ -33,6 +87,7 @@ export class PromptBuilder<I extends string, O extends string, T extends NodeDat
     newBuilder.mapInputKeys = { ...this.mapInputKeys };
     newBuilder.mapOutputKeys = { ...this.mapOutputKeys };
     newBuilder.bypassNodes = [...this.bypassNodes];
+    newBuilder.uploads = { ...this.uploads };
     return newBuilder;
   }
 
@@ -161,6 +216,10 @@ export class PromptBuilder<I extends string, O extends string, T extends NodeDat
   /**
    * Sets the value for a specific input key in the prompt builder.
    *
+   * A `Blob`, `ArrayBuffer`, `Buffer` or a marker from `PromptBuilder.file`, `PromptBuilder.binary` or
+   * `PromptBuilder.image` is uploaded by `CallWrapper` to the client running the job, then replaced by
+   * the name of the uploaded file.
+   *
    * @template V - The type of the value being set.
    * @param {I} key - The input key.
    * @param {V} value - The value to set.
@@ -169,6 +228,16 @@ export class PromptBuilder<I extends string, O extends string, T extends NodeDat
    * @throws {Error} - If the key is not found.
    */
   input<V = string | number | undefined>(key: I, value: V, encodeOs?: OSType) {
+    const upload = toPromptUpload(value);
+    if (upload) {
+      if (!this.mapInputKeys[key]) {
+        throw new Error(`Key ${key} not found`);
+      }
+      this.uploads[key] = upload;
+      return this as Simplify<PromptBuilder<I, O, T>>;
+    }
+    // Any other value, `undefined` included, replaces the pending upload
+    delete this.uploads[key];
     if (value !== undefined) {
       let valueToSet = value;
       /**
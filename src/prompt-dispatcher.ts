@@ -0,0 +1,211 @@
+import { ComfyApi } from "./client";
+import { QueueResponse } from "./types/api";
+import { TComfyAPIEventMap } from "./types/event";
+
+/**
+ * Client events that belong to a single prompt, identified by their `prompt_id`.
+ */
+export const PROMPT_EVENTS = [
+  "execution_start",
+  "execution_cached",
+  "executing",
+  "progress",
+  "executed",
+  "execution_success",
+  "execution_error",
+  "execution_interrupted",
+  "b_preview_meta"
+] as const;
+
+/**
+ * Client events without `prompt_id`, forwarded to the handlers of every prompt.
+ */
+export const BROADCAST_EVENTS = ["b_preview", "reconnection_failed"] as const;
+
+export type TPromptEventKey = (typeof PROMPT_EVENTS)[number];
+export type TBroadcastEventKey = (typeof BROADCAST_EVENTS)[number];
+
+/**
+ * The queue of the server, fetched once for every prompt with a handler.
+ */
+export type TPromptQueueCheck = {
+  prompt_id: string;
+  queue: QueueResponse;
+};
+
+/**
+ * Events of a prompt handled by the dispatcher:
+ * - The execution events of the prompt and the broadcast events of the client.
+ * - `dequeued`: The prompt is no longer in the queue after a `status` message, it finished or was removed.
+ * - `queue_resync`: The queue after a reconnect, to catch up with the events missed while disconnected.
+ */
+export type TPromptEventMap = Pick<TComfyAPIEventMap, TPromptEventKey | TBroadcastEventKey> & {
+  dequeued: CustomEvent<TPromptQueueCheck>;
+  queue_resync: CustomEvent<TPromptQueueCheck>;
+};
+
+export type TPromptDispatcherKey = keyof TPromptEventMap;
+
+type TPromptHandler = (event: CustomEvent) => void;
+
+/**
+ * Routes the events of a client to the handlers registered for their prompt.
+ *
+ * The client is listened once per event type, and each event is looked up by `prompt_id`,
+ * so the cost of an event doesn't grow with the number of tracked prompts. The queue checks
+ * that follow `status` messages and reconnects share a single `/queue` request.
+ */
+export class PromptEventDispatcher {
+  private client: ComfyApi;
+  private handlers = new Map<string, Map<TPromptDispatcherKey, Set<TPromptHandler>>>();
+  private checkingQueue = false;
+  private nextQueueCheck: "dequeued" | "queue_resync" | null = null;
+
+  private readonly route = (ev: Event) => {
+    const detail = (ev as CustomEvent).detail;
+    const promptId = detail?.prompt_id ?? detail?.metadata?.prompt_id;
+    if (promptId !== undefined) {
+      this.emit(promptId, ev.type as TPromptEventKey, ev as CustomEvent);
+    }
+  };
+
+  private readonly broadcast = (ev: Event) => {
+    for (const promptId of [...this.handlers.keys()]) {
+      this.emit(promptId, ev.type as TBroadcastEventKey, ev as CustomEvent);
+    }
+  };
+
+  private readonly onStatus = () => this.checkQueue("dequeued");
+  private readonly onReconnected = () => this.checkQueue("queue_resync");
+
+  constructor(client: ComfyApi) {
+    this.client = client;
+    // Not registered with `client.on` so `removeAllListeners` only clears the handlers
+    for (const type of PROMPT_EVENTS) {
+      this.client.addEventListener(type, this.route);
+    }
+    for (const type of BROADCAST_EVENTS) {
+      this.client.addEventListener(type, this.broadcast);
+    }
+    this.client.addEventListener("status", this.onStatus);
+    this.client.addEventListener("reconnected", this.onReconnected);
+  }
+
+  /**
+   * Registers a handler for an event of a prompt.
+   *
+   * @returns A function that removes the handler.
+   */
+  on<K extends TPromptDispatcherKey>(promptId: string, type: K, callback: (event: TPromptEventMap[K]) => void) {
+    let types = this.handlers.get(promptId);
+    if (!types) {
+      types = new Map();
+      this.handlers.set(promptId, types);
+    }
+    let handlers = types.get(type);
+    if (!handlers) {
+      handlers = new Set();
+      types.set(type, handlers);
+    }
+    const handler = callback as TPromptHandler;
+    handlers.add(handler);
+    return () => this.off(promptId, type, handler);
+  }
+
+  /**
+   * Number of prompts with registered handlers.
+   */
+  get size() {
+    return this.handlers.size;
+  }
+
+  /**
+   * Removes every handler, of a single prompt when given.
+   */
+  clear(promptId?: string) {
+    if (promptId === undefined) {
+      this.handlers.clear();
+    } else {
+      this.handlers.delete(promptId);
+    }
+  }
+
+  /**
+   * Removes every handler and detaches from the client.
+   */
+  destroy() {
+    this.handlers.clear();
+    for (const type of PROMPT_EVENTS) {
+      this.client.removeEventListener(type, this.route);
+    }
+    for (const type of BROADCAST_EVENTS) {
+      this.client.removeEventListener(type, this.broadcast);
+    }
+    this.client.removeEventListener("status", this.onStatus);
+    this.client.removeEventListener("reconnected", this.onReconnected);
+  }
+
+  private emit(promptId: string, type: TPromptDispatcherKey, event: CustomEvent) {
+    const handlers = this.handlers.get(promptId)?.get(type);
+    if (!handlers) {
+      return;
+    }
+    // Handlers may unsubscribe while the event is dispatched
+    for (const handler of [...handlers]) {
+      handler(event);
+    }
+  }
+
+  /**
+   * Fetches the queue once for every prompt listening to the check. Checks requested while one runs are merged
+   * into a single next check, a reconnect check taking precedence as it notifies every prompt.
+   */
+  private async checkQueue(type: "dequeued" | "queue_resync") {
+    if (this.checkingQueue) {
+      this.nextQueueCheck = this.nextQueueCheck === "queue_resync" ? "queue_resync" : type;
+      return;
+    }
+    const promptIds = [...this.handlers].filter(([, types]) => types.has(type)).map(([promptId]) => promptId);
+    if (promptIds.length === 0) {
+      return;
+    }
+    this.checkingQueue = true;
+    try {
+      const queue = await this.client.getQueue();
+      const queued = new Set([...queue.queue_running, ...queue.queue_pending].map((item) => item.prompt_id));
+      for (const promptId of promptIds) {
+        if (type === "queue_resync" || !queued.has(promptId)) {
+          this.emit(promptId, type, new CustomEvent(type, { detail: { prompt_id: promptId, queue } }));
+        }
+      }
+    } catch (error) {
+      // The prompts are checked again on the next status message
+      this.client.dispatchEvent(
+        new CustomEvent("log", {
+          detail: { fnName: "PromptEventDispatcher", message: "Failed to check the queue", data: error }
+        })
+      );
+    } finally {
+      this.checkingQueue = false;
+      const next = this.nextQueueCheck;
+      this.nextQueueCheck = null;
+      if (next) {
+        this.checkQueue(next);
+      }
+    }
+  }
+
+  private off(promptId: string, type: TPromptDispatcherKey, handler: TPromptHandler) {
+    const types = this.handlers.get(promptId);
+    const handlers = types?.get(type);
+    if (!types || !handlers?.delete(handler)) {
+      return;
+    }
+    if (handlers.size === 0) {
+      types.delete(type);
+    }
+    if (types.size === 0) {
+      this.handlers.delete(promptId);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { WebSocket as NodeWebSocket } from "ws";
+
+/**
+ * Ready states shared by the browser `WebSocket` and the `ws` package.
+ */
+export const WS_READY_STATE = {
+  CONNECTING: 0,
+  OPEN: 1,
+  CLOSING: 2,
+  CLOSED: 3
+} as const;
+
+/**
+ * Minimal WebSocket instance surface used by the client.
+ * Both the native browser `WebSocket` and the `ws` package satisfy it.
+ */
+export interface WebSocketClient {
+  readonly readyState: number;
+  binaryType: string;
+  onopen: ((event: any) => void) | null;
+  onclose: ((event: any) => void) | null;
+  onerror: ((event: any) => void) | null;
+  onmessage: ((event: { data: any }) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  /**
+   * Only available in NodeJS implementations.
+   */
+  terminate?: () => void;
+  /**
+   * Sends a ping frame, only available in NodeJS implementations such as `ws`.
+   */
+  ping?: (data?: any) => void;
+  /**
+   * Registers a listener, used for the `pong` frames of NodeJS implementations such as `ws`.
+   */
+  on?: (event: string, listener: (...args: any[]) => void) => unknown;
+}
+
+/**
+ * Constructor of a custom WebSocket implementation.
+ * The second argument receives `{ headers }` with the credential headers.
+ */
+export interface WebSocketInterface {
+  new (url: string, options?: { headers?: Record<string, string> }): WebSocketClient;
+}
+
+/**
+ * How credentials are passed when opening the WebSocket.
+ *
+ * - "headers": Send credential headers on the upgrade request. Not possible with the browser `WebSocket`.
+ * - "query": Append the bearer token to the WebSocket URL query string as `token`. Other credentials are not sent,
+ *   pass what the proxy expects through `wsQuery`.
+ * - "cookie": Rely on the session cookie the browser sends along with the upgrade request.
+ */
+export type TWebSocketAuthMode = "headers" | "query" | "cookie";
+
+export const isBrowser = () => typeof window !== "undefined" && typeof window.document !== "undefined";
+
+/**
+ * Whether the socket created by `createWebSocket` can carry custom headers.
+ */
+export const supportsWsHeaders = (impl?: WebSocketInterface) => !!impl || !isBrowser();
+
+/**
+ * Creates a WebSocket using, in order: the custom implementation, the native browser `WebSocket`,
+ * or the `ws` package on NodeJS. Binary frames are always delivered as `ArrayBuffer`.
+ */
+export const createWebSocket = (
+  url: string,
+  opts: { headers?: Record<string, string>; impl?: WebSocketInterface } = {}
+): WebSocketClient => {
+  let socket: WebSocketClient;
+  if (opts.impl) {
+    socket = new opts.impl(url, { headers: opts.headers });
+  } else if (isBrowser() && typeof globalThis.WebSocket !== "undefined") {
+    socket = new globalThis.WebSocket(url) as unknown as WebSocketClient;
+  } else {
+    socket = new NodeWebSocket(url, { headers: opts.headers }) as unknown as WebSocketClient;
+  }
+  socket.binaryType = "arraybuffer";
+  return socket;
+};
+
+/**
+ * Normalizes a binary WebSocket frame into an `ArrayBuffer`.
+ * Handles `ArrayBuffer` and NodeJS `Buffer` (or any typed array). `Blob` frames must be read asynchronously
+ * with `blob.arrayBuffer()` first.
+ */
+export const toArrayBuffer = (data: unknown): ArrayBuffer | null => {
+  if (data instanceof ArrayBuffer) {
+    return data;
+  }
+  if (ArrayBuffer.isView(data)) {
+    return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice().buffer;
+  }
+  return null;
+};
@@ -1,8 +1,24 @@
+import { BinaryInput } from "./types/api";
+
 export const randomInt = (min: number, max: number) => {
   return Math.floor(Math.random() * (max - min + 1) + min);
 };
 
-export const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+export const delay = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      return reject(signal.reason);
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
 
 export const seed = () => randomInt(10000000000, 999999999999);
 
@@ -17,3 +33,75 @@ export const encodeNTPath = (path: string) => {
 export const encodePosixPath = (path: string) => {
   return path.replace(/\\/g, "/");
 };
+
+/**
+ * Convert any kind of headers init into a plain header record
+ */
+export const toHeaderRecord = (headers?: HeadersInit): Record<string, string> => {
+  if (!headers) return {};
+  if (headers instanceof Headers || Array.isArray(headers)) {
+    const record: Record<string, string> = {};
+    new Headers(headers).forEach((value, key) => {
+      record[key] = value;
+    });
+    return record;
+  }
+  return { ...headers };
+};
+
+/**
+ * Wrap binary content into a `Blob`, without relying on NodeJS `Buffer`
+ */
+export const toBlob = (data: BinaryInput, type?: string): Blob => {
+  if (data instanceof Blob) return data;
+  const bytes =
+    data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  return new Blob([bytes.slice()], { type });
+};
+
+/**
+ * Map items with an async function, running at most `limit` calls at a time.
+ * Results keep the order of the items, no new call is started once one fails.
+ *
+ * @param discard - Releases the results that are dropped because a call failed, including the results of the
+ *                  calls still running at that time.
+ */
+export const mapConcurrent = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  discard?: (result: R) => void
+): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  const done = new Set<number>();
+  let next = 0;
+  let failed = false;
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      let result: R;
+      try {
+        result = await fn(items[index], index);
+      } catch (e) {
+        failed = true;
+        throw e;
+      }
+      if (failed) {
+        discard?.(result);
+      } else {
+        results[index] = result;
+        done.add(index);
+      }
+    }
+  };
+  const workers = Math.max(1, Math.min(limit, items.length));
+  try {
+    await Promise.all(Array.from({ length: workers }, worker));
+  } catch (e) {
+    for (const index of done) {
+      discard?.(results[index]);
+    }
+    throw e;
+  }
+  return results;
+};
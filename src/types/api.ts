@@ -1,3 +1,5 @@
+import { ComfyAuthError } from "./error";
+
 export enum OSType {
   /**
    * Unix-like operating systems
@@ -29,6 +31,207 @@ export interface CustomCredentials {
   headers: Record<string, string>;
 }
 
+/**
+ * Provides the credential headers on demand, e.g. the short-lived tokens of a gateway.
+ */
+export interface CredentialsProvider {
+  /**
+   * Returns the headers sent with the REST calls and the WebSocket connection. Called before each REST call and
+   * each WebSocket (re)connect, so tokens should be cached until they expire.
+   */
+  getHeaders(): Promise<Record<string, string>> | Record<string, string>;
+  /**
+   * Called when the server answers a REST call with a 401, typically to refresh the token.
+   * The call is then retried once with the headers of `getHeaders`, unless `false` is returned.
+   */
+  onAuthError?(error: ComfyAuthError): Promise<boolean | void> | boolean | void;
+}
+
+/**
+ * A `fetch` compatible function used by the client to send every REST request.
+ * Useful to plug in custom agents, proxies or mTLS.
+ */
+export type FetchFunction = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Retry policy for transient failures: network errors, timeouts and the statuses listed in `retryOn`.
+ */
+export interface RetryPolicy {
+  /**
+   * Number of retries after the first attempt.
+   */
+  retries: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled on each following retry.
+   */
+  baseDelay: number;
+  /**
+   * Maximum delay between retries in milliseconds.
+   */
+  maxDelay: number;
+  /**
+   * HTTP statuses that are considered transient.
+   */
+  retryOn: number[];
+}
+
+/**
+ * Reconnection policy of the WebSocket: attempts are spaced by an exponential backoff with random jitter.
+ */
+export interface ReconnectPolicy {
+  /**
+   * Number of attempts before giving up with `reconnection_failed`, `Infinity` retries forever.
+   */
+  maxAttempts: number;
+  /**
+   * Delay after the first attempt in milliseconds, doubled after each following attempt. Also the minimum delay.
+   */
+  baseDelay: number;
+  /**
+   * Maximum delay between attempts in milliseconds.
+   */
+  maxDelay: number;
+  /**
+   * Fraction of the delay randomly added or removed, so clients don't all reconnect at once.
+   */
+  jitter: number;
+}
+
+/**
+ * Liveness check of the WebSocket. A quiet socket is probed instead of being considered dead, so long running
+ * nodes that don't send any message don't cause reconnects.
+ */
+export interface LivenessPolicy {
+  /**
+   * - "auto": Sends WebSocket ping frames when the implementation supports them (`ws` on NodeJS),
+   *   otherwise probes `/prompt` over HTTP.
+   * - "http": Always probes `/prompt` over HTTP.
+   * - "activity": No probe, the socket is dead when no message was received within `timeout`.
+   */
+  mode: "auto" | "http" | "activity";
+  /**
+   * Time between checks in milliseconds. A socket that received a message since the last check is not probed.
+   */
+  interval: number;
+  /**
+   * Time to wait for a pong or a probe response in milliseconds.
+   */
+  timeout: number;
+  /**
+   * Number of consecutive failed probes before reconnecting.
+   */
+  failures: number;
+}
+
+/**
+ * Cache of the node definitions returned by `getNodeDefs`.
+ */
+export interface NodeDefsCachePolicy {
+  /**
+   * Time the definitions are kept in milliseconds. `0` only shares the concurrent requests.
+   */
+  ttl: number;
+  /**
+   * File the definitions are saved to, so they are reused by the next process runs while fresh. NodeJS only.
+   */
+  persistPath?: string;
+}
+
+/**
+ * Per call options accepted by every REST method of the client.
+ */
+export interface RequestOptions {
+  /**
+   * Aborts the call, including pending retries.
+   */
+  signal?: AbortSignal;
+  /**
+   * Timeout of each attempt in milliseconds, until the response headers are received. `0` disables it.
+   */
+  timeout?: number;
+  /**
+   * Overrides the client retry policy, `false` disables retries.
+   * Only idempotent methods (GET, HEAD, OPTIONS, PUT, DELETE) are retried unless a policy is given here.
+   */
+  retry?: Partial<RetryPolicy> | false;
+  /**
+   * Headers of the call, merged over the headers set by the method, such as its `Content-Type`.
+   */
+  headers?: {
+    [key: string]: string;
+  };
+}
+
+/**
+ * Watchdog timeouts of a `CallWrapper` job, in milliseconds. A timeout of `0` or unset is disabled.
+ */
+export interface JobTimeouts {
+  /**
+   * Maximum wait in the queue before the execution starts.
+   */
+  queue?: number;
+  /**
+   * Maximum duration of the execution, from its start.
+   */
+  execution?: number;
+  /**
+   * Maximum time without any event of the running prompt, such as `executing` or `progress`.
+   */
+  idle?: number;
+  /**
+   * What to do with the prompt on the server when a timeout expires: `remove` deletes it from the queue or
+   * interrupts it, `keep` leaves it. Default is `remove`.
+   */
+  onTimeout?: "remove" | "keep";
+}
+
+export interface FetchOptions extends RequestInit, Omit<RequestOptions, "signal"> {
+  headers?: {
+    [key: string]: string;
+  };
+}
+
+/**
+ * Describes a request that is about to be sent by the client.
+ */
+export interface FetchContext {
+  /**
+   * The route requested by the caller, e.g. `/prompt`
+   */
+  route: string;
+  /**
+   * The absolute URL the request will be sent to. Can be rewritten by request interceptors.
+   */
+  url: string;
+  /**
+   * The request options, headers already include the credential headers.
+   */
+  init: FetchOptions;
+}
+
+/**
+ * Hooks that run around every REST call made by the client, including the ones made by extensions.
+ */
+export interface FetchInterceptor {
+  /**
+   * Called before the request is sent. Return a new context or mutate the given one.
+   */
+  onRequest?: (ctx: FetchContext) => FetchContext | void | Promise<FetchContext | void>;
+  /**
+   * Called after a response is received. Return a new response or nothing to keep the current one.
+   */
+  onResponse?: (response: Response, ctx: FetchContext) => Response | void | Promise<Response | void>;
+  /**
+   * Called when the request fails. The returned value is thrown instead of the original error.
+   */
+  onError?: (error: unknown, ctx: FetchContext) => unknown;
+}
+
+/**
+ * Binary content accepted by the upload methods. NodeJS `Buffer` is an `ArrayBufferView`.
+ */
+export type BinaryInput = Blob | ArrayBuffer | ArrayBufferView;
+
 export interface HistoryResponse {
   [key: string]: HistoryEntry;
 }
@@ -81,14 +284,44 @@ export interface QueueResponse {
   queue_pending: QueueItem[];
 }
 
+/**
+ * A queue item as sent by ComfyUI: `[number, prompt_id, prompt, extra_data, outputs_to_execute]`
+ */
+export type RawQueueItem = [number, string, NodeData, MetadataData, string[], ...unknown[]];
+
 export interface QueueItem {
-  [index: number]: number | string | NodeData | MetadataData;
+  number: number;
+  prompt_id: string;
+  prompt: NodeData;
+  extra_data: MetadataData;
+  outputs_to_execute: string[];
 }
 
 export interface QueuePromptResponse {
   prompt_id: string;
   number: number;
-  node_errors: { [key: string]: any };
+  node_errors: NodeErrors;
+}
+
+/**
+ * A validation error reported by ComfyUI for a prompt or a node
+ */
+export interface PromptError {
+  type: string;
+  message: string;
+  details: string;
+  extra_info: { [key: string]: any };
+}
+
+/**
+ * Validation errors of a rejected prompt, keyed by node id
+ */
+export interface NodeErrors {
+  [nodeId: string]: {
+    errors: PromptError[];
+    dependent_outputs: string[];
+    class_type: string;
+  };
 }
 
 export interface SystemStatsResponse {
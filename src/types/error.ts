@@ -1,3 +1,6 @@
+import { NodeErrors } from "./api";
+import { TConnectionState } from "./event";
+
 export class CallWrapperError extends Error {
   name = "CallWrapperError";
 }
@@ -33,3 +36,191 @@ export class ExecutionInterruptedError extends CallWrapperError {
 export class MissingNodeError extends CallWrapperError {
   name = "MissingNodeError";
 }
+
+/**
+ * A job watchdog timed out, see `JobTimeouts`.
+ */
+export class JobTimeoutError extends CallWrapperError {
+  name = "JobTimeoutError";
+
+  /**
+   * The timeout that expired: the wait in the queue, the execution, or the idle time between events.
+   */
+  readonly phase: "queue" | "execution" | "idle";
+  /**
+   * The timeout in milliseconds.
+   */
+  readonly timeout: number;
+
+  constructor(phase: "queue" | "execution" | "idle", timeout: number, options?: ErrorOptions) {
+    super(
+      `The job timed out: no ${phase === "queue" ? "start" : phase === "execution" ? "end" : "event"} after ${timeout}ms`,
+      options
+    );
+    this.phase = phase;
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Base error for every failed REST call made by the SDK.
+ */
+export class ComfyHttpError extends Error {
+  name = "ComfyHttpError";
+
+  /**
+   * HTTP status code of the response, `0` when no response was received.
+   */
+  readonly status: number;
+  readonly statusText: string;
+  /**
+   * The requested route, e.g. `/prompt`
+   */
+  readonly route: string;
+  readonly method: string;
+  /**
+   * The parsed response body, JSON when possible or raw text otherwise.
+   */
+  readonly body: unknown;
+  /**
+   * Per node validation errors returned by ComfyUI when a prompt is rejected.
+   */
+  readonly nodeErrors?: NodeErrors;
+  readonly response?: Response;
+
+  constructor(
+    message: string,
+    details: {
+      status: number;
+      statusText?: string;
+      route: string;
+      method?: string;
+      body?: unknown;
+      response?: Response;
+    },
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.status = details.status;
+    this.statusText = details.statusText ?? "";
+    this.route = details.route;
+    this.method = details.method ?? "GET";
+    this.body = details.body;
+    this.response = details.response;
+    const nodeErrors = (details.body as { node_errors?: NodeErrors } | undefined)?.node_errors;
+    if (nodeErrors && Object.keys(nodeErrors).length > 0) {
+      this.nodeErrors = nodeErrors;
+    }
+  }
+
+  /**
+   * Creates the matching error subclass from a failed response.
+   *
+   * @param response - The failed response, its body will be consumed.
+   * @param route - The requested route.
+   * @param opts - The request method and an optional message prefix.
+   */
+  static async fromResponse(
+    response: Response,
+    route: string,
+    opts?: { method?: string; message?: string }
+  ): Promise<ComfyHttpError> {
+    const method = opts?.method ?? "GET";
+    let body: unknown;
+    try {
+      const text = await response.text();
+      try {
+        body = JSON.parse(text);
+      } catch {
+        body = text || undefined;
+      }
+    } catch {
+      body = undefined;
+    }
+
+    const serverMessage = (body as { error?: { message?: string } } | undefined)?.error?.message;
+    const message = `${opts?.message ?? `${method} ${route} failed`}: ${response.status} ${serverMessage ?? response.statusText}`;
+    const details = { status: response.status, statusText: response.statusText, route, method, body, response };
+
+    switch (true) {
+      case response.status === 401 || response.status === 403:
+        return new ComfyAuthError(message, details);
+      case response.status === 404:
+        return new ComfyNotFoundError(message, details);
+      case response.status === 400 || !!(body as { node_errors?: NodeErrors } | undefined)?.node_errors:
+        return new ComfyValidationError(message, details);
+      default:
+        return new ComfyHttpError(message, details);
+    }
+  }
+}
+
+/**
+ * The server rejected the credentials (401 or 403).
+ */
+export class ComfyAuthError extends ComfyHttpError {
+  name = "ComfyAuthError";
+}
+
+/**
+ * The server rejected the request payload, e.g. a prompt with invalid nodes. See `nodeErrors`.
+ */
+export class ComfyValidationError extends ComfyHttpError {
+  name = "ComfyValidationError";
+}
+
+/**
+ * The requested route or resource does not exist.
+ */
+export class ComfyNotFoundError extends ComfyHttpError {
+  name = "ComfyNotFoundError";
+}
+
+/**
+ * No response was received in time.
+ */
+export class ComfyTimeoutError extends ComfyHttpError {
+  name = "ComfyTimeoutError";
+
+  /**
+   * The timeout that was exceeded, in milliseconds.
+   */
+  readonly timeout: number;
+
+  constructor(route: string, timeout: number, method?: string, options?: ErrorOptions) {
+    super(`${method ?? "GET"} ${route} timed out after ${timeout}ms`, { status: 0, route, method }, options);
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * The client didn't reach an awaited connection state, see `ComfyApi.waitForState`.
+ */
+export class ConnectionStateError extends Error {
+  name = "ConnectionStateError";
+
+  /**
+   * The awaited states.
+   */
+  readonly expected: TConnectionState[];
+  /**
+   * The state of the client when the wait ended.
+   */
+  readonly state: TConnectionState;
+  /**
+   * The timeout that was exceeded in milliseconds, undefined when the client was destroyed.
+   */
+  readonly timeout?: number;
+
+  constructor(expected: TConnectionState[], state: TConnectionState, timeout?: number, options?: ErrorOptions) {
+    super(
+      timeout === undefined
+        ? `The client was destroyed while waiting for ${expected.join(" or ")}`
+        : `The client is ${state} after waiting ${timeout}ms for ${expected.join(" or ")}`,
+      options
+    );
+    this.expected = expected;
+    this.state = state;
+    this.timeout = timeout;
+  }
+}
@@ -1,96 +1,154 @@
 import { EQueueMode } from "../pool";
 import { ComfyApi } from "../client";
 import { TMonitorEvent } from "../features/monitoring";
+import { TWorkflowProgress } from "../workflow-progress";
+import { NodeProgress, QueueResponse, QueueStatus } from "./api";
+import {
+  TEventStatus,
+  TExecuted,
+  TExecuting,
+  TExecution,
+  TExecutionCached,
+  TExecutionError,
+  TExecutionInterrupted,
+  TFeatureFlags,
+  TLogEntry,
+  TNodeProgressState,
+  TPreviewMetadata,
+  TProgress,
+  TProgressState,
+  TUnknownMessage
+} from "./protocol";
 
-export type TEventStatus = {
-  status: {
-    exec_info: {
-      queue_remaining: number;
-    };
-  };
-  sid: string;
+export {
+  TEventStatus,
+  TExecuted,
+  TExecuting,
+  TExecution,
+  TExecutionCached,
+  TExecutionError,
+  TExecutionInterrupted,
+  TFeatureFlags,
+  TLogEntry,
+  TNodeProgressState,
+  TPreviewMetadata,
+  TProgress,
+  TProgressState,
+  TUnknownMessage
 };
 
-export type TExecution = {
-  prompt_id: string;
+export type TPreviewMeta = {
+  blob: Blob;
+  metadata: TPreviewMetadata;
 };
 
-export type TExecuting = TExecution & {
-  node: string | null;
+export type TProgressText = {
+  nodeId: string;
+  text: string;
 };
 
-export type TProgress = TExecuting & {
-  value: number;
-  max: number;
-};
+/**
+ * Connection state of a `ComfyApi`:
+ * - `idle`: created, not initialized yet.
+ * - `connecting`: `init` is running.
+ * - `ready`: initialized, the WebSocket is connected or connecting.
+ * - `degraded-polling`: initialized, the WebSocket is unavailable and the events are polled.
+ * - `reconnecting`: the WebSocket was lost and is being reconnected.
+ * - `offline`: `init` failed or the reconnection attempts are exhausted.
+ * - `destroyed`: `destroy` was called, the state is final.
+ */
+export type TConnectionState =
+  | "idle"
+  | "connecting"
+  | "ready"
+  | "degraded-polling"
+  | "reconnecting"
+  | "offline"
+  | "destroyed";
 
-export type TExecuted<T = unknown> = TExecution & {
-  node: string;
-  output: T;
+export type TStateChange = {
+  state: TConnectionState;
+  previous: TConnectionState;
 };
 
-export type TExecutionCached = TExecution & {
-  nodes: string[];
-};
+/**
+ * Why the WebSocket was reconnected:
+ * - `socket_closed`: the socket was closed.
+ * - `ping_timeout`: the ping frames were not answered.
+ * - `probe_failed`: the HTTP probes of `/prompt` failed.
+ * - `activity_timeout`: no message was received, with the `activity` liveness mode.
+ * - `manual`: `reconnectWs` was called.
+ */
+export type TDisconnectReason = "socket_closed" | "ping_timeout" | "probe_failed" | "activity_timeout" | "manual";
 
-export type TExecutionError = TExecution & {
-  node_id: string;
-  node_type: string;
-  exception_message: string;
-  exception_type: string;
-  traceback: string[];
+export type TDisconnect = {
+  reason: TDisconnectReason;
 };
 
-export type TExecutionInterrupted = TExecution & {
-  node_id: string;
-  node_type: string;
-  executed: string[];
+/**
+ * State of the server fetched again after a reconnect, see `ComfyApi.resync`.
+ */
+export type TResynced = {
+  status: QueueStatus;
+  queue: QueueResponse;
 };
 
-export type TEventKey =
-  | "all"
-  | "auth_error"
-  | "connection_error"
-  | "auth_success"
-  | "status"
-  | "progress"
-  | "executing"
-  | "executed"
-  | "disconnected"
-  | "execution_success"
-  | "execution_start"
-  | "execution_error"
-  | "execution_cached"
-  | "queue_error"
-  | "reconnected"
-  | "connected"
-  | "log"
-  | "terminal"
-  | "reconnecting"
-  | "b_preview";
+/**
+ * Lifecycle events of a `CallWrapper` job, yielded by `CallWrapper.stream()`.
+ */
+export type TJobEvent<O = Record<string, any>> =
+  | { type: "queued"; promptId: string }
+  | { type: "started"; promptId: string }
+  | { type: "cached"; promptId: string; nodes: string[] }
+  | { type: "progress"; promptId: string; progress: NodeProgress }
+  | { type: "workflow_progress"; promptId: string; progress: TWorkflowProgress }
+  | { type: "preview"; promptId: string; blob: Blob }
+  | { type: "output"; promptId: string; key: string; data: any }
+  | { type: "finished"; promptId: string; data: O }
+  | { type: "failed"; promptId?: string; error: Error };
+
+/**
+ * Every event emitted by `ComfyApi`.
+ */
+export type TEventKey = keyof TComfyAPIEventMap;
 
 export type TComfyAPIEventMap = {
+  /**
+   * Every JSON message of the socket, known or not.
+   */
   all: CustomEvent<{ type: string; data: any }>;
   auth_error: CustomEvent<Response>;
   auth_success: CustomEvent<null>;
   connection_error: CustomEvent<Error>;
+  websocket_unavailable: CustomEvent<Error>;
   execution_success: CustomEvent<TExecution>;
   status: CustomEvent<TEventStatus>;
-  disconnected: CustomEvent<null>;
-  reconnecting: CustomEvent<null>;
+  disconnected: CustomEvent<TDisconnect>;
+  reconnecting: CustomEvent<TDisconnect>;
   connected: CustomEvent<null>;
   reconnected: CustomEvent<null>;
+  reconnection_failed: CustomEvent<null>;
+  resynced: CustomEvent<TResynced>;
+  state_change: CustomEvent<TStateChange>;
   b_preview: CustomEvent<Blob>;
-  log: CustomEvent<{ msg: string; data: any }>;
-  terminal: CustomEvent<{ m: string; t: string }>;
+  b_preview_meta: CustomEvent<TPreviewMeta>;
+  progress_text: CustomEvent<TProgressText>;
+  log: CustomEvent<{ fnName: string; message: string; data: any }>;
+  terminal: CustomEvent<TLogEntry>;
+  feature_flags: CustomEvent<TFeatureFlags>;
   execution_start: CustomEvent<TExecution>;
   executing: CustomEvent<TExecuting>;
   progress: CustomEvent<TProgress>;
+  progress_state: CustomEvent<TProgressState>;
   executed: CustomEvent<TExecuted>;
   queue_error: CustomEvent<Error>;
   execution_error: CustomEvent<TExecutionError>;
   execution_interrupted: CustomEvent<TExecutionInterrupted>;
   execution_cached: CustomEvent<TExecutionCached>;
+  /**
+   * A message without type in this protocol version, or with data failing its runtime guard.
+   */
+  unknown_message: CustomEvent<TUnknownMessage>;
 };
 
 export type TComfyPoolEventKey =
@@ -0,0 +1,196 @@
+/**
+ * Version of the ComfyUI WebSocket protocol described by this module.
+ * Bumped whenever a message type is added or changed, so consumers can tell which messages are typed.
+ */
+export const PROTOCOL_VERSION = 1;
+
+export type TEventStatus = {
+  status: {
+    exec_info: {
+      queue_remaining: number;
+    };
+  };
+  sid?: string;
+};
+
+export type TExecution = {
+  prompt_id: string;
+  /**
+   * Server time of the event in milliseconds, sent by recent servers.
+   */
+  timestamp?: number;
+};
+
+export type TExecuting = TExecution & {
+  node: string | null;
+  /**
+   * The node displayed in the UI, differs from `node` for the nodes expanded from a group node.
+   */
+  display_node?: string;
+};
+
+export type TProgress = TExecuting & {
+  value: number;
+  max: number;
+};
+
+export type TNodeProgressState = {
+  value: number;
+  max: number;
+  state: "pending" | "running" | "finished" | "error";
+  node_id: string;
+  prompt_id: string;
+  display_node_id?: string;
+  parent_node_id?: string | null;
+  real_node_id?: string;
+};
+
+/**
+ * Progress of every node of a prompt, sent by servers executing nodes in parallel.
+ */
+export type TProgressState = TExecution & {
+  nodes: Record<string, TNodeProgressState>;
+};
+
+export type TExecuted<T = unknown> = TExecution & {
+  node: string;
+  display_node?: string;
+  output: T;
+};
+
+export type TExecutionCached = TExecution & {
+  nodes: string[];
+};
+
+export type TExecutionError = TExecution & {
+  node_id: string;
+  node_type: string;
+  executed?: string[];
+  exception_message: string;
+  exception_type: string;
+  traceback: string[];
+  current_inputs?: unknown;
+  current_outputs?: unknown;
+};
+
+export type TExecutionInterrupted = TExecution & {
+  node_id: string;
+  node_type: string;
+  executed: string[];
+};
+
+/**
+ * Capabilities announced by the server when the socket opens.
+ */
+export type TFeatureFlags = {
+  supports_preview_metadata?: boolean;
+  max_upload_size?: number;
+  [flag: string]: unknown;
+};
+
+export type TLogEntry = {
+  t: string;
+  m: string;
+};
+
+export type TLogs = {
+  entries: TLogEntry[];
+  size?: { cols: number; rows: number };
+};
+
+/**
+ * Metadata sent along a preview image by servers supporting `supports_preview_metadata`.
+ */
+export type TPreviewMetadata = {
+  node_id: string;
+  display_node_id: string;
+  parent_node_id: string | null;
+  real_node_id: string;
+  prompt_id: string;
+  image_type: string;
+};
+
+/**
+ * The data of each JSON message sent by the server, by message type.
+ */
+export type TServerMessageMap = {
+  status: TEventStatus;
+  execution_start: TExecution;
+  execution_cached: TExecutionCached;
+  executing: TExecuting;
+  progress: TProgress;
+  progress_state: TProgressState;
+  executed: TExecuted;
+  execution_success: TExecution;
+  execution_error: TExecutionError;
+  execution_interrupted: TExecutionInterrupted;
+  feature_flags: TFeatureFlags;
+  logs: TLogs;
+};
+
+export type TServerMessageType = keyof TServerMessageMap;
+
+export type TServerMessage = {
+  [K in TServerMessageType]: { type: K; data: TServerMessageMap[K] };
+}[TServerMessageType];
+
+/**
+ * A message the client has no type for, such as the messages of custom nodes or of newer servers.
+ */
+export type TUnknownMessage = {
+  /**
+   * The `type` of a JSON message, or the event type of a binary frame.
+   */
+  type: string | number;
+  data: unknown;
+  binary: boolean;
+};
+
+const isObject = (value: unknown): value is Record<string, any> => typeof value === "object" && value !== null;
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number";
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(isString);
+const isExecution = (data: unknown): data is TExecution & Record<string, any> =>
+  isObject(data) && isString(data.prompt_id);
+
+/**
+ * Runtime guards of the message data, checking the fields the client relies on.
+ */
+export const SERVER_MESSAGE_GUARDS: { [K in TServerMessageType]: (data: unknown) => data is TServerMessageMap[K] } = {
+  status: (data): data is TEventStatus => isObject(data) && isObject(data.status),
+  execution_start: isExecution,
+  execution_cached: (data): data is TExecutionCached => isExecution(data) && isStringArray(data.nodes),
+  executing: (data): data is TExecuting => isExecution(data) && (data.node === null || isString(data.node)),
+  progress: (data): data is TProgress => isExecution(data) && isNumber(data.value) && isNumber(data.max),
+  progress_state: (data): data is TProgressState => isExecution(data) && isObject(data.nodes),
+  executed: (data): data is TExecuted => isExecution(data) && isString(data.node),
+  execution_success: isExecution,
+  execution_error: (data): data is TExecutionError => isExecution(data) && isString(data.exception_message),
+  execution_interrupted: (data): data is TExecutionInterrupted => isExecution(data),
+  feature_flags: (data): data is TFeatureFlags => isObject(data),
+  logs: (data): data is TLogs => isObject(data) && Array.isArray(data.entries)
+};
+
+/**
+ * Whether a message type is known by this protocol version.
+ */
+export function isServerMessageType(type: unknown): type is TServerMessageType {
+  return isString(type) && Object.hasOwn(SERVER_MESSAGE_GUARDS, type);
+}
+
+/**
+ * Whether a parsed JSON message is a server message known by this protocol version, with valid data.
+ */
+export function isServerMessage(msg: unknown): msg is TServerMessage {
+  return isObject(msg) && isServerMessageType(msg.type) && SERVER_MESSAGE_GUARDS[msg.type](msg.data);
+}
+
+/**
+ * Whether a message is a valid server message of the given type.
+ */
+export function isServerMessageOf<K extends TServerMessageType>(
+  msg: unknown,
+  type: K
+): msg is { type: K; data: TServerMessageMap[K] } {
+  return isServerMessage(msg) && msg.type === type;
+}
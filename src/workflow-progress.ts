@@ -0,0 +1,275 @@
+import { NodeData, NodeDefsResponse } from "./types/api";
+
+/**
+ * Estimated duration of a step, in milliseconds, of a node type without timing history.
+ */
+const DEFAULT_STEP_DURATION = 1000;
+/**
+ * Estimated duration, in milliseconds, of a node type without timing history and without steps.
+ */
+const DEFAULT_NODE_DURATION = 200;
+/**
+ * Weight of the last measure in the moving average of the timing history.
+ */
+const HISTORY_SMOOTHING = 0.5;
+
+/**
+ * Progress of a whole workflow, computed from the nodes that will run.
+ */
+export type TWorkflowProgress = {
+  /**
+   * Overall fraction of the workflow done, between 0 and 1. It never goes back.
+   */
+  progress: number;
+  /**
+   * Estimated remaining time in milliseconds, based on the timing history of the node types.
+   * Undefined until the execution starts.
+   */
+  eta?: number;
+  /**
+   * Time since the execution started in milliseconds.
+   */
+  elapsed: number;
+  /**
+   * The node being executed.
+   */
+  node: string | null;
+  completedNodes: number;
+  totalNodes: number;
+};
+
+type TNodeTiming = {
+  duration?: number;
+  stepDuration?: number;
+};
+
+/**
+ * Average execution time of the node types, used to weight the nodes of a workflow.
+ * Nodes reporting progress are timed per step, the others per execution.
+ */
+export class NodeTimingHistory {
+  private timings = new Map<string, TNodeTiming>();
+
+  /**
+   * Records an execution of a node type.
+   *
+   * @param classType - The `class_type` of the node.
+   * @param duration - The execution time in milliseconds.
+   * @param steps - The number of steps reported by the node progress, if any.
+   */
+  record(classType: string, duration: number, steps?: number) {
+    const timing = this.timings.get(classType) ?? {};
+    if (steps) {
+      timing.stepDuration = this.average(timing.stepDuration, duration / steps);
+    } else {
+      timing.duration = this.average(timing.duration, duration);
+    }
+    this.timings.set(classType, timing);
+  }
+
+  /**
+   * Estimates the execution time of a node type in milliseconds.
+   */
+  estimate(classType: string, steps?: number): number {
+    const timing = this.timings.get(classType);
+    if (steps) {
+      return steps * (timing?.stepDuration ?? DEFAULT_STEP_DURATION);
+    }
+    return timing?.duration ?? DEFAULT_NODE_DURATION;
+  }
+
+  private average(previous: number | undefined, value: number) {
+    return previous === undefined ? value : previous + (value - previous) * HISTORY_SMOOTHING;
+  }
+}
+
+/**
+ * Tracks the progress of a whole workflow from its execution events.
+ *
+ * The nodes that will run are the output nodes and their ancestors, minus the cached ones. Until the node definitions
+ * are given, the nodes without dependents in the prompt graph are taken as the output nodes. Nodes reported by `executing` are added, in case the graph doesn't tell the whole story.
+ * Each node is weighted by its estimated duration, so samplers count more than loaders, and the progress of
+ * the running node is added to the completed ones.
+ */
+export class WorkflowProgressTracker {
+  private workflow: NodeData;
+  private history: NodeTimingHistory;
+  private now: () => number;
+  private pending: Set<string>;
+  private completed = new Set<string>();
+  private steps = new Map<string, number>();
+  private current: { node: string; start: number; value: number; max: number } | null = null;
+  private startedAt?: number;
+  private last = 0;
+  private done = false;
+
+  /**
+   * @param workflow - The queued prompt.
+   * @param history - The timing history, shared between the jobs of a client.
+   * @param now - The clock, in milliseconds.
+   */
+  constructor(workflow: NodeData, history = new NodeTimingHistory(), now: () => number = Date.now) {
+    this.workflow = workflow;
+    this.history = history;
+    this.now = now;
+    this.pending = this.nodesToRun();
+  }
+
+  /**
+   * Narrows the nodes that will run with the node definitions of the server: ComfyUI only executes the
+   * `OUTPUT_NODE` nodes and their ancestors. Node types missing from the definitions are kept.
+   */
+  useNodeDefs(defs: NodeDefsResponse) {
+    const nodes = this.nodesToRun(defs);
+    for (const node of this.pending) {
+      if (!nodes.has(node)) {
+        this.pending.delete(node);
+      }
+    }
+  }
+
+  start() {
+    this.startedAt ??= this.now();
+  }
+
+  /**
+   * Marks nodes as cached, they won't run.
+   */
+  cached(nodes: string[]) {
+    for (const node of nodes) {
+      this.pending.delete(node);
+    }
+  }
+
+  /**
+   * Marks a node as running, or the end of the execution when `node` is `null`.
+   */
+  executing(node: string | null) {
+    this.start();
+    this.completeCurrent();
+    if (node === null) {
+      return;
+    }
+    this.pending.delete(node);
+    this.current = { node, start: this.now(), value: 0, max: 0 };
+  }
+
+  progress(node: string, value: number, max: number) {
+    if (this.current?.node !== node) {
+      this.executing(node);
+    }
+    this.current!.value = value;
+    this.current!.max = max;
+    this.steps.set(node, max);
+  }
+
+  /**
+   * Marks the end of the execution, the progress is complete.
+   */
+  finish() {
+    this.start();
+    this.completeCurrent();
+    this.pending.clear();
+    this.done = true;
+  }
+
+  get snapshot(): TWorkflowProgress {
+    const now = this.now();
+    let completedWeight = 0;
+    for (const node of this.completed) {
+      completedWeight += this.estimate(node);
+    }
+    let pendingWeight = 0;
+    for (const node of this.pending) {
+      pendingWeight += this.estimate(node);
+    }
+    let remaining = pendingWeight;
+
+    let currentWeight = 0;
+    let currentDone = 0;
+    if (this.current) {
+      const { node, start, value, max } = this.current;
+      currentWeight = this.estimate(node);
+      const fraction = max > 0 ? Math.min(value / max, 1) : 0;
+      currentDone = currentWeight * fraction;
+      // Past the first step the measured speed of the node is a better estimate than the history
+      const measured = fraction > 0 ? (now - start) / fraction : 0;
+      remaining += Math.max((measured || currentWeight) - (now - start), 0);
+    }
+
+    const total = completedWeight + currentWeight + pendingWeight;
+    const progress = this.done ? 1 : total > 0 ? Math.min((completedWeight + currentDone) / total, 1) : 0;
+    this.last = Math.max(this.last, progress);
+
+    return {
+      progress: this.last,
+      eta: this.startedAt === undefined ? undefined : this.done ? 0 : Math.round(remaining),
+      elapsed: this.startedAt === undefined ? 0 : now - this.startedAt,
+      node: this.current?.node ?? null,
+      completedNodes: this.completed.size,
+      totalNodes: this.completed.size + this.pending.size + (this.current ? 1 : 0)
+    };
+  }
+
+  private completeCurrent() {
+    if (!this.current) {
+      return;
+    }
+    const { node, start, max } = this.current;
+    const classType = this.workflow[node]?.class_type;
+    if (classType) {
+      this.history.record(classType, this.now() - start, max || undefined);
+    }
+    this.completed.add(node);
+    this.current = null;
+  }
+
+  private estimate(node: string) {
+    const { class_type, inputs } = this.workflow[node] ?? {};
+    if (!class_type) {
+      return 0;
+    }
+    const steps = this.steps.get(node) ?? (typeof inputs?.steps === "number" ? inputs.steps : undefined);
+    return this.history.estimate(class_type, steps);
+  }
+
+  /**
+   * Returns the output nodes, such as `SaveImage`, and all the nodes they depend on. Without a definition, a node
+   * is taken as an output node when nothing depends on it.
+   */
+  private nodesToRun(defs?: NodeDefsResponse) {
+    const referenced = new Set<string>();
+    for (const { inputs } of Object.values(this.workflow)) {
+      for (const value of Object.values(inputs ?? {})) {
+        if (this.isLink(value)) {
+          referenced.add(String(value[0]));
+        }
+      }
+    }
+    const toVisit = Object.keys(this.workflow).filter((node) => {
+      const def = defs?.[this.workflow[node].class_type];
+      return def ? def.output_node : !referenced.has(node);
+    });
+    const nodes = new Set<string>();
+    while (toVisit.length > 0) {
+      const node = toVisit.pop()!;
+      if (nodes.has(node) || !this.workflow[node]) {
+        continue;
+      }
+      nodes.add(node);
+      for (const value of Object.values(this.workflow[node].inputs ?? {})) {
+        if (this.isLink(value)) {
+          toVisit.push(String(value[0]));
+        }
+      }
+    }
+    return nodes;
+  }
+
+  /**
+   * Whether an input value is a link to another node: `[nodeId, outputIndex]`.
+   */
+  private isLink(value: unknown): value is [string | number, number] {
+    return Array.isArray(value) && value.length === 2 && typeof value[1] === "number" && !!this.workflow[value[0]];
+  }
+}
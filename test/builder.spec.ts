@@ -37,6 +37,17 @@ describe("PromptBuilder with complex input", () => {
     expect(newPromptBuilder.prompt["5"].inputs.height).toBe(1500);
   });
 
+  it("should drop the pending upload of an input set to another value", () => {
+    promptBuilder.setInputNode("size", "5.inputs.width");
+
+    promptBuilder.input("size", PromptBuilder.binary(new Uint8Array([1]), "a.png")).input("size", 512);
+    expect(promptBuilder.uploads).toEqual({});
+    expect(promptBuilder.prompt["5"].inputs.width).toBe(512);
+
+    promptBuilder.input("size", PromptBuilder.binary(new Uint8Array([1]), "a.png")).input("size", undefined);
+    expect(promptBuilder.uploads).toEqual({});
+  });
+
   it("should have correct initial values for complex input structure", () => {
     expect(promptBuilder.prompt["3"].inputs.seed).toBe(509648683700218);
     expect(promptBuilder.prompt["4"].inputs.ckpt_name).toBe("SDXL/dreamshaperXL_v2TurboDpmppSDE.safetensors");
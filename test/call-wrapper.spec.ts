@@ -0,0 +1,481 @@
+import { CallWrapper } from "../src/call-wrapper";
+import { PromptBuilder } from "../src/prompt-builder";
+import {
+  DisconnectedError,
+  EnqueueFailedError,
+  ExecutionInterruptedError,
+  JobTimeoutError,
+  WentMissingError
+} from "../src/types/error";
+import Prompt from "../examples/example-txt2img-workflow.json";
+import { describe, it, expect, jest } from "bun:test";
+import { createApi, jsonResponse } from "./helpers";
+
+const setup = (state: "pending" | "running") => {
+  let promptId = "";
+  const fetchFn = jest.fn(async (input: string, init?: RequestInit) => {
+    if (input.endsWith("/prompt")) {
+      promptId = JSON.parse(init?.body as string).prompt_id;
+      return jsonResponse({ prompt_id: promptId, number: 1, node_errors: {} });
+    }
+    if (input.endsWith("/queue") && init?.method !== "POST") {
+      const item = [1, promptId, {}, {}, ["9"]];
+      return jsonResponse({
+        queue_running: state === "running" ? [item] : [],
+        queue_pending: state === "pending" ? [item] : []
+      });
+    }
+    return jsonResponse({});
+  });
+  const api = createApi({ fetch: fetchFn });
+  const workflow = new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9");
+  const onFailed = jest.fn();
+  const wrapper = new CallWrapper(api, workflow).onFailed(onFailed);
+  const posts = () =>
+    fetchFn.mock.calls
+      .filter(([url, init]) => init?.method === "POST" && !url.endsWith("/prompt"))
+      .map(([url, init]) => [url, JSON.parse(init?.body as string)]);
+  const queued = () => new Promise<void>((resolve) => wrapper.onPending(() => resolve()));
+  return { wrapper, onFailed, posts, queued, promptId: () => promptId };
+};
+
+describe("CallWrapper.cancel", () => {
+  it("should remove a pending job from the queue", async () => {
+    const { wrapper, onFailed, posts, queued, promptId } = setup("pending");
+    const result = wrapper.run();
+    await queued();
+    await wrapper.cancel();
+
+    expect(await result).toBe(false);
+    expect(posts()).toEqual([["http://localhost:8188/queue", { delete: [promptId()] }]]);
+    expect(onFailed).toHaveBeenCalledTimes(1);
+    expect(onFailed.mock.calls[0][0]).toBeInstanceOf(ExecutionInterruptedError);
+  });
+
+  it("should not fail the later runs when no run is in flight", async () => {
+    const { wrapper, onFailed, posts, queued, promptId } = setup("running");
+    const complete = async () => {
+      const result = wrapper.run();
+      await queued();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const dispatch = (type: string, detail: any) =>
+        wrapper["client"].dispatchEvent(new CustomEvent(type, { detail: { prompt_id: promptId(), ...detail } }));
+      dispatch("execution_start", {});
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      dispatch("executed", { node: "9", output: { images: [] } });
+      dispatch("execution_success", {});
+      return result;
+    };
+    await wrapper.cancel();
+    expect(await complete()).toBeTruthy();
+    await wrapper.cancel();
+    expect(await complete()).toBeTruthy();
+
+    expect(posts()).toEqual([]);
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+
+  it("should interrupt only its own running prompt when the signal aborts", async () => {
+    const { wrapper, onFailed, posts, queued, promptId } = setup("running");
+    const controller = new AbortController();
+    const result = wrapper.run({ signal: controller.signal });
+    await queued();
+    controller.abort();
+
+    expect(await result).toBe(false);
+    expect(posts()).toEqual([["http://localhost:8188/interrupt", { prompt_id: promptId() }]]);
+    expect(onFailed).toHaveBeenCalledTimes(1);
+    expect(onFailed.mock.calls[0][0]).toBeInstanceOf(ExecutionInterruptedError);
+  });
+});
+
+describe("CallWrapper reuse", () => {
+  it("should start each run of the same wrapper over", async () => {
+    const { wrapper, queued, promptId } = setup("running");
+    const onStart = jest.fn();
+    wrapper.onStart(onStart);
+    const complete = async (outputs: [string, any][]) => {
+      const result = wrapper.run();
+      await queued();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const dispatch = (type: string, detail: any) =>
+        wrapper["client"].dispatchEvent(new CustomEvent(type, { detail: { prompt_id: promptId(), ...detail } }));
+      dispatch("execution_start", {});
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      for (const [node, output] of outputs) {
+        dispatch("executed", { node, output });
+      }
+      return result;
+    };
+
+    const first = await complete([
+      ["12", { text: ["first"] }],
+      ["9", { images: [1] }]
+    ]);
+    expect(first && first._raw).toEqual({ "12": { text: ["first"] } });
+    const second = await complete([["9", { images: [2] }]]);
+    expect(second).toEqual({ images: { images: [2] } } as any);
+    expect(onStart).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("CallWrapper timeouts", () => {
+  it("should remove a prompt waiting too long in the queue", async () => {
+    const { wrapper, onFailed, posts, promptId } = setup("pending");
+
+    expect(await wrapper.run({ timeouts: { queue: 20 } })).toBe(false);
+    expect(posts()).toEqual([["http://localhost:8188/queue", { delete: [promptId()] }]]);
+    expect(onFailed.mock.calls[0][0]).toBeInstanceOf(JobTimeoutError);
+    expect(onFailed.mock.calls[0][0]).toMatchObject({ phase: "queue", timeout: 20 });
+  });
+
+  it("should fail an idle execution and keep the prompt when asked", async () => {
+    const { wrapper, onFailed, posts, queued, promptId } = setup("running");
+    const result = wrapper.execute({ timeouts: { idle: 30, execution: 1000, onTimeout: "keep" } });
+    await queued();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    wrapper["client"].dispatchEvent(new CustomEvent("execution_start", { detail: { prompt_id: promptId() } }));
+
+    await expect(result).rejects.toMatchObject({ name: "JobTimeoutError", phase: "idle" });
+    expect(posts()).toEqual([]);
+    expect(onFailed).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resolve from the history when the end of the job was missed", async () => {
+    let entry: any;
+    const api = createApi({
+      fetch: async (input: string) => {
+        if (input.endsWith("/queue"))
+          return jsonResponse({ queue_running: [[1, "p1", {}, {}, ["9"]]], queue_pending: [] });
+        if (input.endsWith("/history/p1")) return jsonResponse(entry ? { p1: entry } : {});
+        return jsonResponse({});
+      }
+    });
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"));
+    const result = wrapper.attach("p1", { timeouts: { execution: 30 } });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    entry = {
+      prompt: [1, "p1", {}, {}, ["9"]],
+      outputs: { "9": { images: [] } },
+      status: { status_str: "success", completed: true, messages: [] }
+    };
+
+    const output = await result;
+    expect(output && output.images).toEqual({ images: [] });
+  });
+});
+
+describe("CallWrapper reconnects", () => {
+  const setupServer = () => {
+    const server = { running: true, history: undefined as any };
+    const api = createApi({
+      fetch: async (input: string) => {
+        if (input.endsWith("/prompt")) return jsonResponse({ prompt_id: "p1", number: 1, node_errors: {} });
+        if (input.endsWith("/queue"))
+          return jsonResponse({ queue_running: server.running ? [[1, "p1", {}, {}, ["9"]]] : [], queue_pending: [] });
+        if (input.endsWith("/history/p1")) return jsonResponse(server.history ? { p1: server.history } : {});
+        return jsonResponse({});
+      }
+    });
+    const dispatch = (type: string, detail: any = null) => api.dispatchEvent(new CustomEvent(type, { detail }));
+    const onOutput = jest.fn();
+    const onFailed = jest.fn();
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"))
+      .onOutput(onOutput)
+      .onFailed(onFailed);
+    const started = new Promise<void>((resolve) =>
+      wrapper.onPending(() =>
+        setTimeout(() => {
+          dispatch("execution_start", { prompt_id: "p1" });
+          setTimeout(resolve, 10);
+        }, 10)
+      )
+    );
+    return { server, dispatch, wrapper, onOutput, onFailed, started };
+  };
+
+  it("should recover the outputs of a prompt that finished while disconnected", async () => {
+    const { server, dispatch, wrapper, onOutput, onFailed, started } = setupServer();
+    const result = wrapper.run();
+    await started;
+    dispatch("disconnected");
+    dispatch("reconnecting");
+    server.running = false;
+    server.history = {
+      prompt: [1, "p1", {}, {}, ["9"]],
+      outputs: { "9": { images: [] } },
+      status: { status_str: "success", completed: true, messages: [] }
+    };
+    dispatch("reconnected");
+
+    const output = await result;
+    expect(output && output.images).toEqual({ images: [] });
+    expect(onOutput).toHaveBeenCalledWith("images", { images: [] }, "p1");
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+
+  it("should keep tracking a prompt still running after the reconnect", async () => {
+    const { dispatch, wrapper, onFailed, started } = setupServer();
+    const result = wrapper.run();
+    await started;
+    dispatch("disconnected");
+    dispatch("reconnected");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    dispatch("executed", { prompt_id: "p1", node: "9", output: { images: [] } });
+
+    expect(await result).toBeTruthy();
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+
+  it("should fail when the reconnection gives up", async () => {
+    const { dispatch, wrapper, onFailed, started } = setupServer();
+    const result = wrapper.run();
+    await started;
+    dispatch("disconnected");
+    dispatch("reconnection_failed");
+
+    expect(await result).toBe(false);
+    expect(onFailed).toHaveBeenCalledTimes(1);
+    expect(onFailed.mock.calls[0][0]).toBeInstanceOf(DisconnectedError);
+  });
+});
+
+describe("CallWrapper.attach", () => {
+  const history = {
+    prompt: [1, "p1", {}, {}, ["9"]],
+    outputs: { "9": { images: [{ filename: "a.png", subfolder: "", type: "output" }] } },
+    status: { status_str: "success", completed: true, messages: [] }
+  };
+
+  const setup = (queue: { queue_running: any[]; queue_pending: any[] }, entry?: any) => {
+    const fetchFn = jest.fn(async (input: string) => {
+      if (input.endsWith("/queue")) return jsonResponse(queue);
+      if (input.endsWith("/history/p1")) return jsonResponse(entry ? { p1: entry } : {});
+      return jsonResponse({});
+    });
+    const api = createApi({ fetch: fetchFn });
+    const workflow = new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9");
+    const onFinished = jest.fn();
+    const onFailed = jest.fn();
+    const wrapper = new CallWrapper(api, workflow).onFinished(onFinished).onFailed(onFailed);
+    return { api, wrapper, onFinished, onFailed };
+  };
+
+  it("should resolve the output of a finished prompt", async () => {
+    const { wrapper, onFinished } = setup({ queue_running: [], queue_pending: [] }, history);
+
+    const output = await wrapper.attach("p1");
+    expect(output && output.images).toEqual(history.outputs["9"]);
+    expect(onFinished).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resolve a running prompt from its history when it succeeds", async () => {
+    const { api, wrapper, onFinished } = setup(
+      { queue_running: [[1, "p1", {}, {}, ["9"]]], queue_pending: [] },
+      history
+    );
+
+    const result = wrapper.attach("p1");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    api.dispatchEvent(new CustomEvent("execution_success", { detail: { prompt_id: "p1" } }));
+
+    const output = await result;
+    expect(output && output.images).toEqual(history.outputs["9"]);
+    expect(onFinished).toHaveBeenCalledTimes(1);
+  });
+
+  it("should poll a prompt queued by another client id, which gets no execution events", async () => {
+    const server = {
+      queue: { queue_running: [[1, "p1", {}, { client_id: "previous-process" }, ["9"]]], queue_pending: [] as any[] },
+      history: undefined as any
+    };
+    const api = createApi({
+      fetch: async (input: string) => {
+        if (input.endsWith("/queue")) return jsonResponse(server.queue);
+        if (input.endsWith("/history/p1")) return jsonResponse(server.history ? { p1: server.history } : {});
+        return jsonResponse({});
+      }
+    });
+    const onOutput = jest.fn();
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"));
+    wrapper.onOutput(onOutput);
+
+    const result = wrapper.attach("p1");
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    server.queue = { queue_running: [], queue_pending: [] };
+    server.history = {
+      ...history,
+      status: { ...history.status, messages: [["execution_start", { prompt_id: "p1", timestamp: 1 }]] }
+    };
+    api.dispatchEvent(new CustomEvent("status", { detail: { status: { exec_info: { queue_remaining: 0 } } } }));
+
+    const output = await result;
+    expect(output && output.images).toEqual(history.outputs["9"]);
+    expect(onOutput).toHaveBeenCalledWith("images", history.outputs["9"], "p1");
+    expect(wrapper.getTrace().startedAt).toBeNumber();
+  });
+
+  it("should fail when the prompt is unknown", async () => {
+    const { wrapper, onFailed } = setup({ queue_running: [], queue_pending: [] });
+
+    expect(await wrapper.attach("p1")).toBe(false);
+    expect(onFailed.mock.calls[0][0]).toBeInstanceOf(WentMissingError);
+  });
+});
+
+describe("CallWrapper.execute", () => {
+  it("should reject with the typed failure", async () => {
+    const api = createApi({
+      fetch: async () => new Response(JSON.stringify({ error: { message: "invalid" } }), { status: 400 })
+    });
+    const onFailed = jest.fn();
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"])).onFailed(onFailed);
+
+    const error = await wrapper.execute().catch((e) => e);
+    expect(error).toBeInstanceOf(EnqueueFailedError);
+    expect(onFailed).toHaveBeenCalledTimes(1);
+  });
+
+  it("should resolve with the mapped outputs", async () => {
+    const history = {
+      prompt: [1, "p1", {}, {}, ["9"]],
+      outputs: { "9": { images: [] } },
+      status: { status_str: "success", completed: true, messages: [] }
+    };
+    const api = createApi({
+      fetch: async (input: string, init?: RequestInit) => {
+        if (input.endsWith("/prompt")) return jsonResponse({ prompt_id: "p1", number: 1, node_errors: {} });
+        if (input.endsWith("/queue")) return jsonResponse({ queue_running: [], queue_pending: [] });
+        if (input.endsWith("/history/p1")) return jsonResponse({ p1: history });
+        return jsonResponse({});
+      }
+    });
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"));
+
+    const result = wrapper.execute();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    api.dispatchEvent(new CustomEvent("status", { detail: { status: { exec_info: { queue_remaining: 0 } } } }));
+    expect((await result).images).toEqual({ images: [] });
+  });
+});
+
+describe("CallWrapper.stream", () => {
+  it("should yield the job events until it finishes", async () => {
+    const api = createApi({
+      fetch: async (input: string) => {
+        if (input.endsWith("/prompt")) return jsonResponse({ prompt_id: "p1", number: 1, node_errors: {} });
+        if (input.endsWith("/queue"))
+          return jsonResponse({ queue_running: [[1, "p1", {}, {}, ["9"]]], queue_pending: [] });
+        return jsonResponse({});
+      }
+    });
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"));
+    const dispatch = (type: string, detail: any) => api.dispatchEvent(new CustomEvent(type, { detail }));
+
+    const types: string[] = [];
+    for await (const event of wrapper.stream()) {
+      types.push(event.type);
+      if (event.type === "queued") {
+        setTimeout(() => {
+          dispatch("execution_start", { prompt_id: "p1" });
+          setTimeout(() => {
+            dispatch("progress", { prompt_id: "p1", node: "3", value: 1, max: 2 });
+            dispatch("executed", { prompt_id: "p1", node: "9", output: { images: [] } });
+          }, 10);
+        }, 10);
+      }
+      if (event.type === "finished") {
+        expect(event.data.images).toEqual({ images: [] });
+      }
+    }
+    expect(types).toEqual([
+      "queued",
+      "started",
+      "workflow_progress",
+      "progress",
+      "workflow_progress",
+      "output",
+      "workflow_progress",
+      "finished"
+    ]);
+  });
+
+  it("should detach from the client when the consumer stops early", async () => {
+    const api = createApi({
+      fetch: async () => jsonResponse({ prompt_id: "p1", number: 1, node_errors: {} })
+    });
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"));
+    const onProgress = jest.fn();
+    const onFailed = jest.fn();
+    wrapper.onProgress(onProgress).onFailed(onFailed);
+    const controller = new AbortController();
+    const removeListener = jest.spyOn(controller.signal, "removeEventListener");
+
+    for await (const event of wrapper.stream({ signal: controller.signal })) {
+      expect(event.type).toBe("queued");
+      break;
+    }
+    api.dispatchEvent(new CustomEvent("execution_start", { detail: { prompt_id: "p1" } }));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    api.dispatchEvent(new CustomEvent("progress", { detail: { prompt_id: "p1", node: "3", value: 1, max: 2 } }));
+    expect(onProgress).not.toHaveBeenCalled();
+    expect(onFailed.mock.calls[0][0]).toBeInstanceOf(ExecutionInterruptedError);
+    expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function));
+    expect(api["promptDispatcher"].size).toBe(0);
+  });
+
+  it("should leave a failed run alone when the consumer stops after its failure", async () => {
+    const api = createApi({ fetch: async () => jsonResponse({ error: "invalid prompt" }, 400) });
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"));
+    const onFailed = jest.fn();
+    wrapper.onFailed(onFailed);
+    const cleanup = jest.spyOn(wrapper as any, "cleanupListeners");
+
+    for await (const event of wrapper.stream()) {
+      if (event.type === "failed") {
+        expect(event.error).toBeInstanceOf(EnqueueFailedError);
+        break;
+      }
+    }
+    expect(onFailed).toHaveBeenCalledTimes(1);
+    expect(cleanup).not.toHaveBeenCalled();
+    expect(wrapper["detachError"]).toBeUndefined();
+  });
+});
+
+describe("CallWrapper input uploads", () => {
+  it("should upload binary inputs and resolve image references before queueing", async () => {
+    let queued: any;
+    const fetchFn = jest.fn(async (input: string, init?: RequestInit) => {
+      if (input.endsWith("/upload/image")) {
+        const name = ((init?.body as FormData).get("image") as File).name;
+        return jsonResponse({ name, subfolder: "", type: "input" });
+      }
+      if (input.endsWith("/prompt")) {
+        queued = JSON.parse(init?.body as string).prompt;
+        return jsonResponse({ prompt_id: "p1", number: 1, node_errors: {} });
+      }
+      return jsonResponse({});
+    });
+    const api = createApi({ fetch: fetchFn });
+    const builder = new PromptBuilder(Prompt, ["source", "mask"], ["images"])
+      .setRawInputNode("source", "10.inputs.image")
+      .setRawInputNode("mask", "11.inputs.image");
+    const workflow = builder
+      .input("source", PromptBuilder.binary(Buffer.from([1, 2, 3]), "cat.png"))
+      .input("mask", PromptBuilder.image({ filename: "mask.png", subfolder: "masks", type: "output" }));
+
+    expect(workflow.clone().uploads).toEqual(workflow.uploads);
+
+    const wrapper = new CallWrapper(api, workflow);
+    const pending = new Promise<void>((resolve) => wrapper.onPending(() => resolve()));
+    wrapper.run();
+    await pending;
+
+    expect(fetchFn.mock.calls.filter(([url]) => url.endsWith("/upload/image"))).toHaveLength(1);
+    expect(queued["10"].inputs.image).toBe("cat.png");
+    expect(queued["11"].inputs.image).toBe("masks/mask.png [output]");
+    expect((workflow.prompt as any)["10"].inputs.image).toBeUndefined();
+    await wrapper.cancel();
+  });
+});
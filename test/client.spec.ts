@@ -0,0 +1,762 @@
+import { ComfyApi } from "../src/client";
+import {
+  ComfyAuthError,
+  ComfyHttpError,
+  ComfyNotFoundError,
+  ComfyTimeoutError,
+  ComfyValidationError,
+  ConnectionStateError
+} from "../src/types/error";
+import {
+  TDisconnect,
+  TNodeProgressState,
+  TPreviewMeta,
+  TProgressState,
+  TProgressText,
+  TResynced,
+  TUnknownMessage
+} from "../src/types/event";
+import { isServerMessage, isServerMessageOf } from "../src/types/protocol";
+import { describe, it, expect, jest } from "bun:test";
+import { createApi, jsonResponse } from "./helpers";
+
+describe("ComfyApi.fetchApi", () => {
+  it("should use the custom fetch and merge caller headers with credentials", async () => {
+    const fetchFn = jest.fn(async (_input: string, _init?: RequestInit) => jsonResponse({ ok: true }));
+    const api = createApi({
+      fetch: fetchFn,
+      credentials: { type: "custom", headers: { "X-Api-Key": "secret" } }
+    });
+
+    await api.storeSettings({ foo: "bar" });
+
+    const [url, init] = fetchFn.mock.calls.find(([url]) => url.endsWith("/settings"))!;
+    expect(url).toBe("http://localhost:8188/settings");
+    expect(init?.headers).toEqual({ "X-Api-Key": "secret", "Content-Type": "application/json" });
+  });
+
+  it("should run request, response and error interceptors", async () => {
+    const fetchFn = jest.fn(async (input: string) => {
+      if (input.includes("/fail")) throw new TypeError("network down");
+      return jsonResponse({ value: 1 });
+    });
+    const api = createApi({ fetch: fetchFn });
+    const onResponse = jest.fn();
+    const remove = api.addInterceptor({
+      onRequest: (ctx) => ({ ...ctx, url: ctx.url.replace("localhost:8188", "proxy:9000") }),
+      onResponse,
+      onError: (error) => new Error("wrapped", { cause: error })
+    });
+
+    await api.fetchApi("/queue");
+    expect(fetchFn.mock.calls[0][0]).toBe("http://proxy:9000/queue");
+    expect(onResponse).toHaveBeenCalledTimes(1);
+
+    await expect(api.fetchApi("/fail")).rejects.toThrow("wrapped");
+
+    remove();
+    await api.fetchApi("/queue");
+    expect(fetchFn.mock.calls[2][0]).toBe("http://localhost:8188/queue");
+  });
+});
+
+class FakeWebSocket {
+  static instances: FakeWebSocket[] = [];
+  readyState = 0;
+  binaryType = "blob";
+  onopen: ((ev: any) => void) | null = null;
+  onclose: ((ev: any) => void) | null = null;
+  onerror: ((ev: any) => void) | null = null;
+  onmessage: ((ev: { data: any }) => void) | null = null;
+  sent: string[] = [];
+
+  constructor(
+    public url: string,
+    public options?: { headers?: Record<string, string> }
+  ) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(data);
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+}
+
+describe("ComfyApi WebSocket adapter", () => {
+  it("should only send the bearer token in the query string when configured", () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      wsAuth: "query",
+      credentials: { type: "bearer_token", token: "abc" },
+      fetch: async () => jsonResponse({})
+    });
+    api["createSocket"]();
+
+    const socket = FakeWebSocket.instances.at(-1)!;
+    expect(socket.url).toBe("ws://localhost:8188/ws?clientId=client&token=abc");
+    expect(socket.options?.headers).toBeUndefined();
+    expect(socket.binaryType).toBe("arraybuffer");
+    api.destroy();
+
+    const custom = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      wsAuth: "query",
+      credentials: { type: "custom", headers: { "X-Api-Key": "secret" } },
+      fetch: async () => jsonResponse({})
+    });
+    custom["createSocket"]();
+    expect(FakeWebSocket.instances.at(-1)!.url).toBe("ws://localhost:8188/ws?clientId=client");
+    custom.destroy();
+  });
+
+  it("should parse binary previews from ArrayBuffer and Buffer frames", () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      fetch: async () => jsonResponse({})
+    });
+    const previews: Blob[] = [];
+    api.on("b_preview", (ev) => previews.push(ev.detail));
+    api["createSocket"]();
+
+    const frame = new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 9, 9, 9]);
+    const socket = FakeWebSocket.instances.at(-1)!;
+    socket.onmessage?.({ data: frame.buffer });
+    socket.onmessage?.({ data: Buffer.from(frame) });
+
+    expect(previews.length).toBe(2);
+    expect(previews[0].size).toBe(3);
+    expect(previews[1].size).toBe(3);
+    api.destroy();
+  });
+
+  it("should decode preview metadata and progress text frames", () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      fetch: async () => jsonResponse({})
+    });
+    const previews: Blob[] = [];
+    const metaPreviews: TPreviewMeta[] = [];
+    const texts: TProgressText[] = [];
+    api.on("b_preview", (ev) => previews.push(ev.detail));
+    api.on("b_preview_meta", (ev) => metaPreviews.push(ev.detail));
+    api.on("progress_text", (ev) => texts.push(ev.detail));
+    api["createSocket"]();
+    const socket = FakeWebSocket.instances.at(-1)!;
+    socket.onopen?.({});
+
+    const encode = (type: number, header: Uint8Array, payload: Uint8Array) => {
+      const frame = new Uint8Array(8 + header.length + payload.length);
+      const view = new DataView(frame.buffer);
+      view.setUint32(0, type);
+      view.setUint32(4, header.length);
+      frame.set(header, 8);
+      frame.set(payload, 8 + header.length);
+      return frame.buffer;
+    };
+    const encoder = new TextEncoder();
+    const metadata = {
+      node_id: "9",
+      display_node_id: "9",
+      parent_node_id: null,
+      real_node_id: "9",
+      prompt_id: "prompt",
+      image_type: "image/png"
+    };
+    socket.onmessage?.({ data: encode(4, encoder.encode(JSON.stringify(metadata)), new Uint8Array([1, 2])) });
+    socket.onmessage?.({ data: encode(3, encoder.encode("12"), encoder.encode("50%")) });
+    socket.onmessage?.({ data: new Uint8Array([0, 0, 0, 2, 0, 0, 0, 3, 7]).buffer });
+
+    expect(JSON.parse(socket.sent[0])).toEqual({ type: "feature_flags", data: { supports_preview_metadata: true } });
+    expect(metaPreviews[0].metadata).toEqual(metadata);
+    expect(metaPreviews[0].blob.type).toBe("image/png");
+    expect(metaPreviews[0].blob.size).toBe(2);
+    expect(texts).toEqual([{ nodeId: "12", text: "50%" }]);
+    expect(previews.map((p) => p.type)).toEqual(["image/png", "image/webp"]);
+    api.destroy();
+  });
+
+  it("should dispatch typed protocol messages and report unknown ones", () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      fetch: async () => jsonResponse({})
+    });
+    const unknown: TUnknownMessage[] = [];
+    const states: TProgressState[] = [];
+    const executing = jest.fn();
+    const custom = jest.fn();
+    api.on("unknown_message", (ev) => unknown.push(ev.detail));
+    api.on("progress_state", (ev) => states.push(ev.detail));
+    api.on("executing", executing);
+    api.addEventListener("crystools.monitor", custom);
+    api["createSocket"]();
+
+    const socket = FakeWebSocket.instances.at(-1)!;
+    const send = (msg: any) => socket.onmessage?.({ data: JSON.stringify(msg) });
+    const state = { value: 2, max: 4, state: "running", node_id: "3", prompt_id: "p1" };
+    send({ type: "progress_state", data: { prompt_id: "p1", nodes: { "3": state } } });
+    send({ type: "executing", data: { node: "3" } });
+    send({ type: "crystools.monitor", data: { cpu_utilization: 10 } });
+    socket.onmessage?.({ data: new Uint8Array([0, 0, 0, 9, 1, 2]).buffer });
+
+    expect(states).toEqual([{ prompt_id: "p1", nodes: { "3": state as TNodeProgressState } }]);
+    // A known message of another shape is still dispatched
+    expect(executing.mock.calls.map(([ev]) => ev.detail)).toEqual([{ node: "3" }]);
+    expect(custom).toHaveBeenCalledTimes(1);
+    expect(unknown.map(({ type, binary }) => [type, binary])).toEqual([
+      ["executing", false],
+      ["crystools.monitor", false],
+      [9, true]
+    ]);
+    expect(new Uint8Array(unknown[2].data as ArrayBuffer)).toEqual(new Uint8Array([1, 2]));
+    expect(isServerMessage({ type: "execution_start", data: { prompt_id: "p1", timestamp: 1 } })).toBe(true);
+    expect(isServerMessageOf({ type: "progress", data: { prompt_id: "p1", node: "3", value: 1 } }, "progress")).toBe(
+      false
+    );
+    api.destroy();
+  });
+
+  it("should only remove the listener given to off", () => {
+    const api = createApi();
+    const removed = jest.fn();
+    const kept = jest.fn();
+    api.on("status", removed);
+    api.on("status", kept);
+    api.off("status", removed);
+
+    api.dispatchEvent(new CustomEvent("status", { detail: null }));
+    expect(removed).not.toHaveBeenCalled();
+    expect(kept).toHaveBeenCalledTimes(1);
+    expect(api["listeners"].map((listener) => listener.handler)).toContain(kept);
+  });
+});
+
+describe("ComfyApi credentials provider", () => {
+  it("should refresh the credentials and retry once on a 401", async () => {
+    let token = "expired";
+    const onAuthError = jest.fn(async (_error: ComfyAuthError) => {
+      token = token === "expired" ? "fresh" : "revoked";
+    });
+    const fetchFn = jest.fn(async (_input: string, init?: RequestInit) => {
+      const authorization = (init?.headers as Record<string, string>).Authorization;
+      if (authorization !== "Bearer fresh") return new Response("unauthorized", { status: 401 });
+      return jsonResponse({ queue_running: [], queue_pending: [] });
+    });
+    const api = createApi({
+      fetch: fetchFn,
+      credentials: { getHeaders: async () => ({ Authorization: `Bearer ${token}` }), onAuthError }
+    });
+
+    await expect(api.getQueue()).resolves.toEqual({ queue_running: [], queue_pending: [] });
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(onAuthError.mock.calls[0][0]).toBeInstanceOf(ComfyAuthError);
+
+    token = "expired";
+    onAuthError.mockImplementation(async () => {
+      token = "revoked";
+    });
+    await expect(api.getQueue()).rejects.toBeInstanceOf(ComfyAuthError);
+    expect(onAuthError).toHaveBeenCalledTimes(2);
+  });
+
+  it("should ask the provider for the headers of each WebSocket reconnect", async () => {
+    let calls = 0;
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      wsAuth: "query",
+      credentials: { getHeaders: () => ({ Authorization: `Bearer token-${++calls}` }) },
+      fetch: async () => jsonResponse({})
+    });
+    api.reconnectWs();
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    expect(FakeWebSocket.instances.at(-1)!.url).toBe("ws://localhost:8188/ws?clientId=client&token=token-1");
+    api.destroy();
+  });
+
+  it("should fail init with the auth error of rejected credentials", async () => {
+    const api = createApi({
+      fetch: async () => new Response("unauthorized", { status: 401 }),
+      credentials: { type: "bearer_token", token: "wrong" }
+    });
+    const authErrors = jest.fn();
+    api.on("auth_error", authErrors);
+
+    await expect(api.init(5, 1)).rejects.toBeInstanceOf(ComfyAuthError);
+    expect(authErrors).toHaveBeenCalledTimes(1);
+    expect(api.state).toBe("offline");
+  });
+});
+
+describe("ComfyApi URLs", () => {
+  it("should keep the base path of a server mounted under a sub-path", async () => {
+    const fetchFn = jest.fn(async (_input: string) => jsonResponse({ queue_running: [], queue_pending: [] }));
+    const api = new ComfyApi("https://gpu.example.com/comfy/", "client", {
+      customWebSocketImpl: FakeWebSocket,
+      fetch: fetchFn
+    });
+    await api.getQueue();
+    api["createSocket"]();
+
+    expect(fetchFn.mock.calls[0][0]).toBe("https://gpu.example.com/comfy/queue");
+    expect(FakeWebSocket.instances.at(-1)!.url).toBe("wss://gpu.example.com/comfy/ws?clientId=client");
+    api.destroy();
+  });
+
+  it("should use the WebSocket URL override with the extra query parameters", () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      wsUrl: "https://proxy.example.com/sockets/comfy?region=eu",
+      wsQuery: { access_token: "t&1" },
+      fetch: async () => jsonResponse({})
+    });
+    api["createSocket"]();
+
+    expect(FakeWebSocket.instances.at(-1)!.url).toBe(
+      "wss://proxy.example.com/sockets/comfy?region=eu&access_token=t%261&clientId=client"
+    );
+    api.destroy();
+  });
+
+  it("should URL-encode the parameters of output files", async () => {
+    const fetchFn = jest.fn(async (_input: string) => new Response("data"));
+    const api = createApi({ fetch: fetchFn });
+    const image = { filename: "a b&c#1.png", subfolder: "x/y", type: "output" };
+
+    expect(api.getPathImage(image)).toBe(
+      "http://localhost:8188/view?filename=a+b%26c%231.png&type=output&subfolder=x%2Fy"
+    );
+    await api.getImage(image);
+    expect(fetchFn.mock.calls[0][0]).toBe(api.getPathImage(image));
+  });
+});
+
+describe("ComfyApi connection state", () => {
+  it("should move through the connection states and emit each change", async () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      fetch: async () => jsonResponse({ system: { os: "posix" } })
+    });
+    const changes: string[] = [];
+    api.on("state_change", (ev) => changes.push(`${ev.detail.previous} -> ${ev.detail.state}`));
+    expect(api.state).toBe("idle");
+
+    const ready = api.waitForReady({ timeout: 1000 });
+    await api.init();
+    expect(await ready).toBe(api);
+
+    const socket = FakeWebSocket.instances.at(-1)!;
+    socket.onopen?.({});
+    socket.onclose?.({});
+    expect(api.state).toBe("reconnecting");
+    expect(api.isReady).toBe(false);
+
+    FakeWebSocket.instances.at(-1)!.onopen?.({});
+    expect(api.state).toBe("ready");
+    api.destroy();
+    expect(changes).toEqual([
+      "idle -> connecting",
+      "connecting -> ready",
+      "ready -> reconnecting",
+      "reconnecting -> ready",
+      "ready -> destroyed"
+    ]);
+  });
+
+  it("should resync the terminal subscription and the queue after a reconnect", async () => {
+    const fetchFn = jest.fn(async (input: string, _init?: RequestInit) => {
+      if (input.endsWith("/prompt")) return jsonResponse({ exec_info: { queue_remaining: 1 } });
+      if (input.endsWith("/queue"))
+        return jsonResponse({ queue_running: [[1, "p1", {}, {}, ["9"]]], queue_pending: [] });
+      return jsonResponse({});
+    });
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      listenTerminal: true,
+      reconnect: { baseDelay: 5, maxDelay: 5, jitter: 0 },
+      fetch: fetchFn
+    });
+    const resynced = new Promise<TResynced>((resolve) => api.on("resynced", (ev) => resolve(ev.detail)));
+    await api.init();
+    api.reconnectWs(true);
+    const socket = FakeWebSocket.instances.at(-1)!;
+    socket.readyState = 1;
+    socket.onopen?.({});
+
+    const { status, queue } = await resynced;
+    expect(status.exec_info.queue_remaining).toBe(1);
+    expect(queue.queue_running.map((item) => item.prompt_id)).toEqual(["p1"]);
+    const [, init] = fetchFn.mock.calls.find(([url]) => url.endsWith("/internal/logs/subscribe"))!;
+    expect(JSON.parse(init?.body as string)).toEqual({ clientId: "client", enabled: true });
+    expect(api.state).toBe("ready");
+    api.destroy();
+  });
+
+  it("should detect the drops of a reconnected socket", async () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      reconnect: { baseDelay: 5, maxDelay: 5, jitter: 0 },
+      liveness: { interval: 10 },
+      fetch: async () => jsonResponse({})
+    });
+    const reasons: string[] = [];
+    api.on("disconnected", (ev) => reasons.push(ev.detail.reason));
+    const open = () => {
+      const socket = FakeWebSocket.instances.at(-1)!;
+      socket.readyState = 1;
+      socket.onopen?.({});
+      return socket;
+    };
+    await api.init();
+    open().onclose?.({});
+    expect(api.state).toBe("reconnecting");
+
+    open().onclose?.({});
+    expect(api.state).toBe("reconnecting");
+
+    // Closed without close event, found by the liveness check
+    open().readyState = 3;
+    await new Promise((resolve) => api.on("disconnected", resolve));
+    expect(reasons).toEqual(["socket_closed", "socket_closed", "socket_closed"]);
+    api.destroy();
+  });
+
+  it("should give up reconnecting after the configured attempts", async () => {
+    class ClosedWebSocket extends FakeWebSocket {
+      readyState = 3;
+    }
+    const api = createApi({
+      customWebSocketImpl: ClosedWebSocket,
+      reconnect: { maxAttempts: 2, baseDelay: 5, maxDelay: 5 },
+      fetch: async () => jsonResponse({})
+    });
+    await api.init();
+    const created = FakeWebSocket.instances.length;
+    const failed = new Promise((resolve) => api.on("reconnection_failed", resolve));
+    api.reconnectWs(true);
+
+    await failed;
+    expect(FakeWebSocket.instances.length - created).toBe(2);
+    expect(api.state).toBe("offline");
+    api.destroy();
+  });
+
+  it("should probe a quiet socket with ping frames instead of reconnecting", async () => {
+    class PingWebSocket extends FakeWebSocket {
+      readyState = 1;
+      answer = true;
+      pings = 0;
+      pong?: () => void;
+
+      on(event: string, listener: () => void) {
+        if (event === "pong") this.pong = listener;
+      }
+
+      ping() {
+        this.pings++;
+        if (this.answer) setTimeout(() => this.pong?.(), 1);
+      }
+    }
+    const api = createApi({
+      customWebSocketImpl: PingWebSocket,
+      liveness: { interval: 10, timeout: 10, failures: 2 },
+      fetch: async () => jsonResponse({})
+    });
+    const reasons: string[] = [];
+    api.on("disconnected", (ev) => reasons.push(ev.detail.reason));
+    api["createSocket"]();
+    const socket = FakeWebSocket.instances.at(-1) as PingWebSocket;
+    socket.onopen?.({});
+    api.lastActivity = 0;
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    expect(socket.pings).toBeGreaterThan(1);
+    expect(reasons).toEqual([]);
+
+    socket.answer = false;
+    await new Promise((resolve) => api.on("disconnected", resolve));
+    expect(reasons).toEqual(["ping_timeout"]);
+    api.destroy();
+  });
+
+  it("should reconnect when the HTTP probes of a quiet socket fail", async () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      liveness: { mode: "http", interval: 10, timeout: 10, failures: 2 },
+      fetch: async (input: string) => {
+        if (input.endsWith("/prompt")) throw new TypeError("network down");
+        return jsonResponse({});
+      }
+    });
+    const disconnected = new Promise<TDisconnect>((resolve) => api.on("disconnected", (ev) => resolve(ev.detail)));
+    api["createSocket"]();
+    const socket = FakeWebSocket.instances.at(-1)!;
+    socket.readyState = 1;
+    socket.onopen?.({});
+    api.lastActivity = 0;
+
+    expect(await disconnected).toEqual({ reason: "probe_failed" });
+    api.destroy();
+  });
+
+  it("should check the liveness of a socket opened by a reconnect", async () => {
+    const api = createApi({
+      customWebSocketImpl: FakeWebSocket,
+      liveness: { interval: 10 },
+      fetch: async () => jsonResponse({})
+    });
+    const clear = jest.spyOn(globalThis, "clearInterval");
+    // The first socket is never created, e.g. the server was down at startup
+    api["createSocket"](true);
+    const socket = FakeWebSocket.instances.at(-1)!;
+    socket.readyState = 1;
+    socket.onopen?.({});
+    expect(api["wsTimer"]).not.toBeNull();
+
+    const timer = api["wsTimer"];
+    socket.onopen?.({});
+    expect(clear).toHaveBeenCalledWith(timer);
+
+    socket.readyState = 3;
+    expect(await new Promise<TDisconnect>((resolve) => api.on("disconnected", (ev) => resolve(ev.detail)))).toEqual({
+      reason: "socket_closed"
+    });
+    clear.mockRestore();
+    api.destroy();
+  });
+
+  it("should stop waiting for a state on timeout, abort or destroy", async () => {
+    const api = createApi({ fetch: async () => jsonResponse({}) });
+    await expect(api.waitForState("ready", { timeout: 10 })).rejects.toMatchObject({
+      name: "ConnectionStateError",
+      state: "idle",
+      timeout: 10
+    });
+
+    const controller = new AbortController();
+    const aborted = api.waitForState("ready", { signal: controller.signal });
+    controller.abort(new Error("stop"));
+    await expect(aborted).rejects.toThrow("stop");
+
+    const destroyed = api.waitForState(["ready", "offline"]);
+    api.destroy();
+    await expect(destroyed).rejects.toBeInstanceOf(ConnectionStateError);
+    expect(await api.waitForState("destroyed")).toBe(api);
+    await expect(api.waitForState("ready")).rejects.toBeInstanceOf(ConnectionStateError);
+  });
+
+  it("should ignore the transitions outside of the connection lifecycle", () => {
+    const api = createApi({ fetch: async () => jsonResponse({}) });
+    api["setState"]("ready");
+    expect(api.state).toBe("idle");
+    api["setState"]("connecting");
+    api["setState"]("ready");
+    api["setState"]("connecting");
+    expect(api.state).toBe("ready");
+    api.destroy();
+    api["setState"]("ready");
+    expect(api.state).toBe("destroyed");
+  });
+});
+
+describe("ComfyApi errors", () => {
+  it("should throw a validation error with node errors when a prompt is rejected", async () => {
+    const body = {
+      error: { type: "prompt_outputs_failed_validation", message: "Prompt outputs failed validation" },
+      node_errors: { "3": { errors: [], dependent_outputs: ["9"], class_type: "KSampler" } }
+    };
+    const api = createApi({ fetch: async () => jsonResponse(body, 400) });
+
+    const error = await api.queuePrompt(null, {}).catch((e) => e);
+    expect(error).toBeInstanceOf(ComfyValidationError);
+    expect(error.status).toBe(400);
+    expect(error.route).toBe("/prompt");
+    expect(error.method).toBe("POST");
+    expect(error.nodeErrors).toEqual(body.node_errors);
+    expect(error.message).toContain("Prompt outputs failed validation");
+  });
+
+  it("should throw typed errors for auth and missing routes", async () => {
+    const api = createApi({
+      fetch: async (input) => new Response("nope", { status: input.endsWith("/queue") ? 401 : 404 })
+    });
+
+    const authError = await api.getQueue().catch((e) => e);
+    expect(authError).toBeInstanceOf(ComfyAuthError);
+    expect(authError).toBeInstanceOf(ComfyHttpError);
+    expect(authError.body).toBe("nope");
+
+    expect(await api.getSystemStats().catch((e) => e)).toBeInstanceOf(ComfyNotFoundError);
+  });
+
+  it("should throw typed errors when freeing memory fails or the server can't be reached", async () => {
+    const failing = createApi({
+      fetch: async () => new Response("busy", { status: 500 }),
+      retry: { retries: 0 }
+    });
+    const freeError = await failing.freeMemory(true, true).catch((e) => e);
+    expect(freeError).toBeInstanceOf(ComfyHttpError);
+    expect(freeError).toMatchObject({ status: 500, route: "/free", method: "POST" });
+
+    const network = new TypeError("fetch failed");
+    const unreachable = createApi({
+      fetch: async () => {
+        throw network;
+      }
+    });
+    const initError = await unreachable.init(0, 1).catch((e) => e);
+    expect(initError).toBeInstanceOf(ComfyHttpError);
+    expect(initError).toMatchObject({ status: 0, route: "/prompt", cause: network });
+  });
+
+  it("should throw a timeout error when polling takes too long", async () => {
+    const api = createApi({
+      fetch: (_input, init) =>
+        new Promise((_resolve, reject) => {
+          init?.signal?.addEventListener("abort", () => reject(new DOMException("Aborted", "AbortError")));
+        })
+    });
+
+    const error = await api.pollStatus(10).catch((e) => e);
+    expect(error).toBeInstanceOf(ComfyTimeoutError);
+    expect(error.timeout).toBe(10);
+  });
+});
+
+describe("ComfyApi timeouts and retries", () => {
+  const retry = { baseDelay: 1, maxDelay: 1 };
+
+  it("should retry idempotent requests on transient statuses", async () => {
+    const statuses = [503, 502, 200];
+    const fetchFn = jest.fn(async () => jsonResponse({ queue_running: [], queue_pending: [] }, statuses.shift()));
+    const api = createApi({ fetch: fetchFn, retry });
+
+    await expect(api.getQueue()).resolves.toEqual({ queue_running: [], queue_pending: [] });
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should not retry non idempotent requests or disabled retries", async () => {
+    const fetchFn = jest.fn(async () => jsonResponse({}, 503));
+    const api = createApi({ fetch: fetchFn, retry });
+
+    await expect(api.storeSetting("foo", 1)).rejects.toBeInstanceOf(ComfyHttpError);
+    await expect(api.getQueue({ retry: false })).rejects.toBeInstanceOf(ComfyHttpError);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  it("should time out each attempt and honor the caller signal", async () => {
+    const fetchFn = jest.fn(
+      (_input: string, init?: RequestInit) =>
+        new Promise<Response>((_, reject) => init?.signal?.addEventListener("abort", () => reject(init.signal?.reason)))
+    );
+    const api = createApi({ fetch: fetchFn, retry: { ...retry, retries: 1 } });
+
+    await expect(api.getQueue({ timeout: 10 })).rejects.toBeInstanceOf(ComfyTimeoutError);
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+
+    const controller = new AbortController();
+    const pending = api.getQueue({ signal: controller.signal, timeout: 0 });
+    controller.abort(new Error("cancelled"));
+    await expect(pending).rejects.toThrow("cancelled");
+    expect(fetchFn).toHaveBeenCalledTimes(3);
+  });
+
+  it("should merge the caller headers and forward the options of every method", async () => {
+    const fetchFn = jest.fn(
+      (input: string, init?: RequestInit) =>
+        new Promise<Response>((resolve, reject) => {
+          if (input.endsWith("/history")) resolve(jsonResponse({}));
+          init?.signal?.addEventListener("abort", () => reject(init.signal?.reason));
+        })
+    );
+    const api = createApi({ fetch: fetchFn, retry });
+
+    await api.clearHistory({ headers: { "X-Trace": "1" } });
+    expect(fetchFn.mock.calls[0][1]?.headers).toEqual({ "Content-Type": "application/json", "X-Trace": "1" });
+
+    await expect(api.moveUserData("a.json", "b.json", { timeout: 10 })).rejects.toBeInstanceOf(ComfyTimeoutError);
+    expect(fetchFn.mock.calls[1][0]).toBe("http://localhost:8188/userdata/a.json/move/b.json?overwrite=false");
+    await expect(api.ping({ timeout: 10 })).resolves.toEqual({ status: false });
+  });
+
+  it("should not enqueue a prompt twice when the server received it", async () => {
+    let promptId: string | undefined;
+    const fetchFn = jest.fn(async (input: string, init?: RequestInit) => {
+      if (input.endsWith("/prompt")) {
+        promptId = JSON.parse(init?.body as string).prompt_id;
+        throw new TypeError("connection reset");
+      }
+      if (input.endsWith("/queue")) {
+        return jsonResponse({ queue_running: [], queue_pending: [[3, promptId, {}, {}, []]] });
+      }
+      return jsonResponse({});
+    });
+    const api = createApi({ fetch: fetchFn, retry });
+
+    const result = await api.queuePrompt(null, {}, { retry: {} });
+    expect(result).toEqual({ prompt_id: promptId!, number: 3, node_errors: {} });
+    expect(fetchFn.mock.calls.filter(([url]) => url.endsWith("/prompt"))).toHaveLength(1);
+  });
+
+  it("should only retry prompts once the server keeps the client prompt id", async () => {
+    const server = { echo: false, statuses: [200, 503, 200, 503, 200] };
+    const fetchFn = jest.fn(async (input: string, init?: RequestInit) => {
+      if (input.endsWith("/prompt")) {
+        const { prompt_id } = JSON.parse(init?.body as string);
+        return jsonResponse({ prompt_id: server.echo ? prompt_id : "server-id", number: 1 }, server.statuses.shift());
+      }
+      return jsonResponse({ queue_running: [], queue_pending: [] });
+    });
+    const api = createApi({ fetch: fetchFn, retry });
+    const posts = () => fetchFn.mock.calls.filter(([url]) => url.endsWith("/prompt")).length;
+
+    await api.queuePrompt(null, {});
+    await expect(api.queuePrompt(null, {})).rejects.toBeInstanceOf(ComfyHttpError);
+    expect(posts()).toBe(2);
+
+    server.echo = true;
+    await api.queuePrompt(null, {});
+    await api.queuePrompt(null, {});
+    expect(posts()).toBe(5);
+  });
+});
+
+describe("ComfyApi queue and history", () => {
+  it("should decode queue items", async () => {
+    const api = createApi({
+      fetch: async () =>
+        jsonResponse({ queue_running: [[1, "a", { "1": {} }, { client_id: "client" }, ["9"]]], queue_pending: [] })
+    });
+
+    const queue = await api.getQueue();
+    expect(queue.queue_running).toEqual([
+      {
+        number: 1,
+        prompt_id: "a",
+        prompt: { "1": {} } as any,
+        extra_data: { client_id: "client" },
+        outputs_to_execute: ["9"]
+      }
+    ]);
+  });
+
+  it("should post deletions and clears to the queue and history", async () => {
+    const fetchFn = jest.fn(async (_input: string, _init?: RequestInit) => jsonResponse({}));
+    const api = createApi({ fetch: fetchFn });
+
+    await api.deleteQueueItems(["a", "b"]);
+    await api.clearQueue();
+    await api.deleteHistory(["c"]);
+    await api.clearHistory();
+
+    expect(fetchFn.mock.calls.map(([url, init]) => [url, init?.method, JSON.parse(init?.body as string)])).toEqual([
+      ["http://localhost:8188/queue", "POST", { delete: ["a", "b"] }],
+      ["http://localhost:8188/queue", "POST", { clear: true }],
+      ["http://localhost:8188/history", "POST", { delete: ["c"] }],
+      ["http://localhost:8188/history", "POST", { clear: true }]
+    ]);
+  });
+});
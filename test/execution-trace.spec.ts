@@ -0,0 +1,90 @@
+import { CallWrapper } from "../src/call-wrapper";
+import { ExecutionTrace } from "../src/execution-trace";
+import { PromptBuilder } from "../src/prompt-builder";
+import { CustomEventError } from "../src/types/error";
+import Prompt from "../examples/example-txt2img-workflow.json";
+import { describe, it, expect } from "bun:test";
+import { createApi, jsonResponse } from "./helpers";
+
+describe("ExecutionTrace", () => {
+  it("should record the timeline of a run and export it as Chrome trace events", () => {
+    let now = 1000;
+    const trace = new ExecutionTrace(() => now);
+    trace.enqueued("p1");
+    now += 50;
+    trace.cached(["4", "5"]);
+    trace.executing("3", "KSampler");
+    now += 800;
+    trace.executing("8", "VAEDecode");
+    now += 100;
+    trace.executed("8");
+    now += 10;
+    trace.error(new CustomEventError("OOM", { cause: { node_id: "9" } }));
+    trace.end();
+
+    expect(trace.toJSON()).toMatchObject({
+      promptId: "p1",
+      enqueuedAt: 1000,
+      startedAt: 1050,
+      endedAt: 1960,
+      cachedNodes: ["4", "5"],
+      nodes: [
+        { node: "3", classType: "KSampler", start: 1050, end: 1850 },
+        { node: "8", classType: "VAEDecode", start: 1850, end: 1950 }
+      ],
+      errors: [{ time: 1960, node: "9", message: "OOM" }]
+    });
+    expect(trace.slowestNodes.map(({ node, duration }) => [node, duration])).toEqual([
+      ["3", 800],
+      ["8", 100]
+    ]);
+
+    const { traceEvents } = trace.toChromeTrace();
+    expect(traceEvents.map(({ name, ph, ts, dur }) => [name, ph, ts, dur])).toEqual([
+      ["queued", "X", 0, 50000],
+      ["execution", "X", 50000, 910000],
+      ["cached", "i", 50000, undefined],
+      ["KSampler #3", "X", 50000, 800000],
+      ["VAEDecode #8", "X", 850000, 100000],
+      ["CustomEventError", "i", 960000, undefined]
+    ]);
+  });
+});
+
+describe("CallWrapper.getTrace", () => {
+  it("should trace the nodes executed by its prompt", async () => {
+    const api = createApi({
+      fetch: async (input: string) => {
+        if (input.endsWith("/prompt")) return jsonResponse({ prompt_id: "p1", number: 1, node_errors: {} });
+        if (input.endsWith("/queue"))
+          return jsonResponse({ queue_running: [[1, "p1", {}, {}, ["9"]]], queue_pending: [] });
+        return jsonResponse({});
+      }
+    });
+    const dispatch = (type: string, detail: any) => api.dispatchEvent(new CustomEvent(type, { detail }));
+    const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"));
+    wrapper.onPending(() =>
+      setTimeout(() => {
+        dispatch("execution_start", { prompt_id: "p1" });
+        setTimeout(() => {
+          dispatch("execution_cached", { prompt_id: "p1", nodes: ["4"] });
+          dispatch("executing", { prompt_id: "p1", node: "3" });
+          dispatch("executing", { prompt_id: "other", node: "7" });
+          dispatch("executing", { prompt_id: "p1", node: "9" });
+          dispatch("executed", { prompt_id: "p1", node: "9", output: { images: [] } });
+        }, 10);
+      }, 10)
+    );
+
+    expect(await wrapper.run()).toBeTruthy();
+    const trace = wrapper.getTrace();
+    expect(trace.promptId).toBe("p1");
+    expect(trace.enqueuedAt).toBeNumber();
+    expect(trace.endedAt).toBeNumber();
+    expect(trace.cachedNodes).toEqual(["4"]);
+    expect(trace.nodes.map(({ node, classType, end }) => [node, classType, end !== undefined])).toEqual([
+      ["3", "KSampler", true],
+      ["9", "SaveImage", true]
+    ]);
+  });
+});
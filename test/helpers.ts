@@ -0,0 +1,10 @@
+import { ComfyApi } from "../src/client";
+
+export const jsonResponse = (data: any, status = 200) =>
+  new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } });
+
+/**
+ * A client of the local test server with the `client` id, e.g. `createApi({ fetch })`.
+ */
+export const createApi = (options?: ConstructorParameters<typeof ComfyApi>[2]) =>
+  new ComfyApi("http://localhost:8188", "client", options);
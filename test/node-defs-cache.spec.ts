@@ -0,0 +1,87 @@
+import { NodeDefsCache } from "../src/node-defs-cache";
+import { describe, it, expect, jest } from "bun:test";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createApi, jsonResponse } from "./helpers";
+
+const KSampler = { input: { required: { sampler_name: [["euler"]], scheduler: [["normal"]] } } };
+
+describe("NodeDefsCache", () => {
+  it("should answer the single nodes from the full definitions until they expire", async () => {
+    let now = 0;
+    const cache = new NodeDefsCache("http://localhost:8188", { ttl: 1000 }, undefined, () => now);
+    const load = jest.fn(async () => ({ KSampler }) as any);
+
+    expect(await cache.get(undefined, load)).toEqual({ KSampler });
+    expect(await cache.get("KSampler", load)).toEqual({ KSampler });
+    expect(await cache.get("Missing", load)).toBeNull();
+    expect(load).toHaveBeenCalledTimes(1);
+
+    now = 1000;
+    await cache.get("KSampler", load);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not cache the responses of requests started before an invalidation", async () => {
+    const cache = new NodeDefsCache("http://localhost:8188", { ttl: 1000 });
+    let resolve!: (defs: any) => void;
+    const stale = cache.get(undefined, () => new Promise((r) => (resolve = r)));
+    await Promise.resolve();
+    cache.invalidate();
+    resolve({ Old: {} });
+    expect(await stale).toEqual({ Old: {} });
+
+    const load = jest.fn(async () => ({ KSampler }) as any);
+    expect(await cache.get(undefined, load)).toEqual({ KSampler });
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it("should persist the definitions between runs of the same host", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "node-defs-"));
+    const persistPath = join(dir, "object_info.json");
+    try {
+      const first = new NodeDefsCache("http://localhost:8188", { ttl: 60000, persistPath });
+      await first.get(undefined, async () => ({ KSampler }) as any);
+      await first.flush();
+      expect(JSON.parse(await readFile(persistPath, "utf8")).host).toBe("http://localhost:8188");
+
+      const load = jest.fn(async () => ({}) as any);
+      const second = new NodeDefsCache("http://localhost:8188", { ttl: 60000, persistPath });
+      expect(await second.get("KSampler", load)).toEqual({ KSampler });
+      expect(load).not.toHaveBeenCalled();
+
+      const other = new NodeDefsCache("http://other:8188", { ttl: 60000, persistPath });
+      await other.get("KSampler", load);
+      await other.flush();
+      expect(load).toHaveBeenCalledTimes(1);
+
+      second.invalidate();
+      await second.flush();
+      await expect(readFile(persistPath, "utf8")).rejects.toThrow();
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("ComfyApi.getNodeDefs", () => {
+  it("should share a single request and refetch after a resync", async () => {
+    const fetch = jest.fn(async (input: string) => {
+      if (input.includes("/object_info")) return jsonResponse({ KSampler });
+      if (input.endsWith("/queue")) return jsonResponse({ queue_running: [], queue_pending: [] });
+      return jsonResponse({ exec_info: { queue_remaining: 0 } });
+    });
+    const api = createApi({ fetch });
+    const objectInfoCalls = () => fetch.mock.calls.filter(([input]) => input.includes("/object_info")).length;
+
+    const [samplers, defs] = await Promise.all([api.getSamplerInfo(), api.getNodeDefs("KSampler")]);
+    expect(samplers.sampler).toEqual([["euler"]]);
+    expect(defs).toEqual({ KSampler });
+    expect(objectInfoCalls()).toBe(1);
+
+    await api.resync();
+    await api.getNodeDefs("KSampler");
+    expect(objectInfoCalls()).toBe(2);
+  });
+});
@@ -0,0 +1,142 @@
+import { CallWrapper } from "../src/call-wrapper";
+import { PromptBuilder } from "../src/prompt-builder";
+import { ComfyNotFoundError, ComfyTimeoutError } from "../src/types/error";
+import Prompt from "../examples/example-txt2img-workflow.json";
+import { describe, it, expect, jest } from "bun:test";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createApi } from "./helpers";
+
+const setup = () => {
+  const fetchFn = jest.fn(async (input: string) => {
+    const filename = new URL(input).searchParams.get("filename")!;
+    return new Response(`content of ${filename}`, { headers: { "Content-Type": "application/octet-stream" } });
+  });
+  const api = createApi({ fetch: fetchFn });
+  return { api, fetchFn };
+};
+
+const output = {
+  images: { images: [{ filename: "a.png", subfolder: "", type: "output" }] },
+  _raw: {
+    "12": {
+      gifs: [{ filename: "b.webm", subfolder: "clips", type: "output", format: "video/webm" }],
+      text: ["hello"],
+      animated: [true]
+    }
+  }
+};
+
+describe("CallWrapper.downloadOutputs", () => {
+  it("should download the files and texts of the mapped and raw outputs", async () => {
+    const { api, fetchFn } = setup();
+    const workflow = new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9");
+    const assets = await new CallWrapper(api, workflow).downloadOutputs(output);
+
+    expect(assets.map(({ key, nodeId, kind, index, mimeType }) => [key, nodeId, kind, index, mimeType])).toEqual([
+      ["images", "9", "images", 0, "image/png"],
+      ["12", "12", "gifs", 0, "video/webm"],
+      ["12", "12", "text", 0, "text/plain"]
+    ]);
+    expect(assets[0].info).toEqual(output.images.images[0]);
+    expect(await assets[1].data.text()).toBe("content of b.webm");
+    expect(await assets[2].data.text()).toBe("hello");
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+    expect(fetchFn.mock.calls[1][0]).toBe("http://localhost:8188/view?filename=b.webm&type=output&subfolder=clips");
+  });
+
+  it("should return buffers and streams", async () => {
+    const { api } = setup();
+    const [buffer] = await api.downloadOutputs({ "9": output.images }, { format: "buffer" });
+    expect(buffer.data).toBeInstanceOf(Uint8Array);
+    expect(new TextDecoder().decode(buffer.data)).toBe("content of a.png");
+
+    const [stream] = await api.downloadOutputs({ "9": output.images }, { format: "stream" });
+    expect(await new Response(stream.data).text()).toBe("content of a.png");
+  });
+
+  it("should fall back to a binary type when the server sends an empty content type", async () => {
+    const api = createApi({ fetch: async () => new Response("data", { headers: { "Content-Type": "" } }) });
+    const outputs = { "9": { images: [{ filename: "c.bin", subfolder: "", type: "output" }] } };
+
+    for (const format of ["blob", "stream"] as const) {
+      const [asset] = await api.downloadOutputs(outputs, { format });
+      expect(asset.mimeType).toBe("application/octet-stream");
+    }
+  });
+
+  it("should apply the timeout and the signal to the download of the bodies", async () => {
+    const cancel = jest.fn();
+    const api = createApi({
+      // The headers arrive at once, the body never ends
+      fetch: async () =>
+        new Response(new ReadableStream({ start: (controller) => controller.enqueue(new Uint8Array([1])), cancel }), {
+          headers: { "Content-Type": "image/png" }
+        }),
+      retry: { retries: 0 }
+    });
+
+    const timeoutError = await api.downloadOutputs({ "9": output.images }, { timeout: 20 }).catch((e) => e);
+    expect(timeoutError).toBeInstanceOf(ComfyTimeoutError);
+    expect(timeoutError.timeout).toBe(20);
+
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(new Error("stop")), 20);
+    const download = api.downloadOutputs({ "9": output.images }, { format: "buffer", signal: controller.signal });
+    expect(await download.catch((e) => e.message)).toBe("stop");
+    expect(cancel).toHaveBeenCalledTimes(2);
+  });
+
+  it("should cancel the streams of the other assets when a download fails", async () => {
+    const cancel = jest.fn();
+    const api = createApi({
+      fetch: async (input: string) => {
+        const filename = new URL(input).searchParams.get("filename")!;
+        if (filename === "c.png") {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+          return new Response("missing", { status: 404 });
+        }
+        await new Promise((resolve) => setTimeout(resolve, filename === "a.png" ? 0 : 30));
+        return new Response(new ReadableStream({ cancel: () => cancel(filename) }));
+      }
+    });
+    const images = ["a.png", "b.png", "c.png"].map((filename) => ({ filename, subfolder: "", type: "output" }));
+
+    const error = await api.downloadOutputs({ "9": { images } }, { format: "stream" }).catch((e) => e);
+    expect(error).toBeInstanceOf(ComfyNotFoundError);
+    // The download still running when the other failed is cancelled once done
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    expect(cancel.mock.calls.map(([filename]) => filename).sort()).toEqual(["a.png", "b.png"]);
+  });
+});
+
+describe("ComfyApi.saveOutputs", () => {
+  it("should write the assets following the naming pattern", async () => {
+    const { api } = setup();
+    const dir = await mkdtemp(join(tmpdir(), "comfy-outputs-"));
+    try {
+      const saved = await api.saveOutputs(output._raw, dir, { pattern: "{node}/{kind}_{index}{ext}" });
+
+      expect(saved.map((asset) => asset.path)).toEqual([join(dir, "12", "gifs_0.webm"), join(dir, "12", "text_0.txt")]);
+      expect(await readFile(saved[0].path, "utf8")).toBe("content of b.webm");
+      expect(await readFile(saved[1].path, "utf8")).toBe("hello");
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("should not write outside the directory", async () => {
+    const { api } = setup();
+    const dir = await mkdtemp(join(tmpdir(), "comfy-outputs-"));
+    try {
+      const saved = await api.saveOutputs(
+        { "9": { images: [{ filename: "../../escape.png", subfolder: "", type: "output" }] } },
+        dir
+      );
+      expect(saved[0].path).toBe(join(dir, ".._.._escape.png"));
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { PollingExecutionTracker } from "../src/polling";
+import { describe, it, expect, jest } from "bun:test";
+import { createApi, jsonResponse } from "./helpers";
+
+const setup = (history: any) => {
+  let queue: any = { queue_running: [[0, "p1", {}, {}, []]], queue_pending: [] };
+  const fetchFn = jest.fn(async (input: string) => {
+    if (input.endsWith("/queue")) return jsonResponse(queue);
+    if (input.endsWith("/history/p1")) return jsonResponse({ p1: history });
+    return jsonResponse({});
+  });
+  const api = createApi({ fetch: fetchFn });
+  const tracker = new PollingExecutionTracker(api);
+  const events: [string, any][] = [];
+  for (const type of [
+    "execution_start",
+    "execution_cached",
+    "executed",
+    "execution_success",
+    "execution_error"
+  ] as const) {
+    api.on(type, (ev) => events.push([type, ev.detail]));
+  }
+  return { api, tracker, events, fetchFn, finish: () => (queue = { queue_running: [], queue_pending: [] }) };
+};
+
+describe("PollingExecutionTracker", () => {
+  it("should emit the execution events of a tracked prompt", async () => {
+    const { tracker, events, finish } = setup({
+      prompt: [0, "p1", {}, {}, ["9"]],
+      outputs: { "9": { images: [] } },
+      status: {
+        status_str: "success",
+        completed: true,
+        messages: [
+          ["execution_start", { prompt_id: "p1", timestamp: 1 }],
+          ["execution_cached", { prompt_id: "p1", nodes: ["4"], timestamp: 2 }],
+          ["execution_success", { prompt_id: "p1", timestamp: 3 }]
+        ]
+      }
+    });
+    tracker.track("p1");
+
+    await tracker.poll();
+    expect(events.map(([type]) => type)).toEqual(["execution_start"]);
+
+    finish();
+    await tracker.poll();
+    expect(events.map(([type]) => type)).toEqual([
+      "execution_start",
+      "execution_cached",
+      "executed",
+      "execution_success"
+    ]);
+    expect(events[2][1]).toEqual({ prompt_id: "p1", node: "9", output: { images: [] } });
+
+    await tracker.poll();
+    expect(events.length).toBe(4);
+  });
+
+  it("should replay errors and stop tracking prompts ended by the WebSocket", async () => {
+    const error = { prompt_id: "p1", node_id: "3", exception_type: "RuntimeError" };
+    const { api, tracker, events, fetchFn, finish } = setup({
+      prompt: [0, "p1", {}, {}, []],
+      outputs: {},
+      status: { status_str: "error", completed: false, messages: [["execution_error", error]] }
+    });
+    tracker.track("p1");
+    finish();
+    await tracker.poll();
+    expect(events.map(([type]) => type)).toEqual(["execution_start", "execution_error"]);
+    expect(events[1][1]).toEqual(error);
+
+    tracker.track("p2");
+    api.dispatchEvent(new CustomEvent("execution_success", { detail: { prompt_id: "p2" } }));
+    fetchFn.mockClear();
+    await tracker.poll();
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it("should stop tracking the prompts removed from the queue", async () => {
+    const { api } = setup(undefined);
+    const tracked = () => [...api["pollingTracker"]["prompts"].keys()];
+    for (const promptId of ["p1", "p2", "p3"]) {
+      api.trackPrompt(promptId);
+    }
+    api.dispatchEvent(new CustomEvent("execution_start", { detail: { prompt_id: "p2" } }));
+
+    await api.deleteQueueItems(["p1", "p2"]);
+    expect(tracked()).toEqual(["p2", "p3"]);
+    await api.clearQueue();
+    expect(tracked()).toEqual(["p2"]);
+    api.untrackPrompt("p2");
+    expect(tracked()).toEqual([]);
+  });
+});
@@ -0,0 +1,112 @@
+import { CallWrapper } from "../src/call-wrapper";
+import { PromptBuilder } from "../src/prompt-builder";
+import Prompt from "../examples/example-txt2img-workflow.json";
+import { describe, it, expect, jest } from "bun:test";
+import { createApi, jsonResponse } from "./helpers";
+
+describe("ComfyApi.onPrompt", () => {
+  it("should only call the handlers of the event prompt", () => {
+    const api = createApi();
+    const dispatch = (type: string, detail: any) => api.dispatchEvent(new CustomEvent(type, { detail }));
+    const first = jest.fn();
+    const second = jest.fn();
+    const meta = jest.fn();
+    api.onPrompt("p1", "executing", first);
+    api.onPrompt("p2", "executing", second);
+    api.onPrompt("p2", "b_preview_meta", meta);
+
+    dispatch("executing", { prompt_id: "p1", node: "3" });
+    dispatch("executing", { prompt_id: "p3", node: "3" });
+    dispatch("b_preview_meta", { blob: new Blob(), metadata: { prompt_id: "p2", node_id: "3" } });
+
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(first.mock.calls[0][0].detail.prompt_id).toBe("p1");
+    expect(second).not.toHaveBeenCalled();
+    expect(meta).toHaveBeenCalledTimes(1);
+  });
+
+  it("should prune the prompts without handlers", () => {
+    const api = createApi();
+    const handler = jest.fn();
+    const offStart = api.onPrompt("p1", "execution_start", handler);
+    const offSuccess = api.onPrompt("p1", "execution_success", () => offSuccess());
+    expect(api["promptDispatcher"].size).toBe(1);
+
+    api.dispatchEvent(new CustomEvent("execution_success", { detail: { prompt_id: "p1" } }));
+    offStart();
+    expect(api["promptDispatcher"].size).toBe(0);
+
+    api.dispatchEvent(new CustomEvent("execution_start", { detail: { prompt_id: "p1" } }));
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should check the queue once per status message for every prompt", async () => {
+    let fail = false;
+    const fetch = jest.fn(async () => {
+      if (fail) throw new TypeError("network down");
+      return jsonResponse({ queue_running: [[1, "p1", {}, {}, ["9"]]], queue_pending: [] });
+    });
+    const api = createApi({ fetch, retry: { retries: 0 } });
+    const dequeued = jest.fn();
+    const logs = jest.fn();
+    api.on("log", logs);
+    for (const promptId of ["p1", "p2", "p3"]) {
+      api.onPrompt(promptId, "dequeued", dequeued);
+    }
+    const status = () => api.dispatchEvent(new CustomEvent("status", { detail: null }));
+
+    status();
+    status();
+    status();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(dequeued.mock.calls.map(([ev]) => ev.detail.prompt_id)).toEqual(["p2", "p3", "p2", "p3"]);
+
+    fail = true;
+    status();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(logs.mock.calls.at(-1)[0].detail.message).toBe("Failed to check the queue");
+  });
+
+  it("should not leak listeners once concurrent jobs are done", async () => {
+    let queued = 0;
+    const api = createApi({
+      fetch: async (input: string) => {
+        if (input.endsWith("/prompt"))
+          return jsonResponse({ prompt_id: `p${++queued}`, number: queued, node_errors: {} });
+        if (input.endsWith("/queue"))
+          return jsonResponse({
+            queue_running: Array.from({ length: queued }, (_, i) => [i + 1, `p${i + 1}`, {}, {}, ["9"]]),
+            queue_pending: []
+          });
+        return jsonResponse({});
+      }
+    });
+    const dispatch = (type: string, detail: any) => api.dispatchEvent(new CustomEvent(type, { detail }));
+    const listeners = api["listeners"].length;
+    const wrappers = [1, 2, 3].map(() => {
+      const progress = jest.fn();
+      const wrapper = new CallWrapper(api, new PromptBuilder(Prompt, [], ["images"]).setOutputNode("images", "9"))
+        .onPending((promptId) =>
+          setTimeout(() => {
+            dispatch("execution_start", { prompt_id: promptId });
+            setTimeout(() => {
+              dispatch("progress", { prompt_id: promptId, node: "3", value: 1, max: 20 });
+              dispatch("executed", { prompt_id: promptId, node: "9", output: { images: [] } });
+            }, 10);
+          }, 10)
+        )
+        .onProgress(progress);
+      return { wrapper, progress };
+    });
+
+    const results = await Promise.all(wrappers.map(({ wrapper }) => wrapper.run()));
+    expect(results.every(Boolean)).toBe(true);
+    for (const { progress } of wrappers) {
+      expect(progress).toHaveBeenCalledTimes(1);
+    }
+    expect(api["promptDispatcher"].size).toBe(0);
+    expect(api["pollingTracker"]["prompts"].size).toBe(0);
+    expect(api["listeners"].length).toBe(listeners);
+  });
+});
@@ -1,4 +1,4 @@
-import { randomInt, delay, seed, encodeNTPath, encodePosixPath } from "src/tools";
+import { randomInt, delay, seed, encodeNTPath, encodePosixPath, toBlob, mapConcurrent } from "src/tools";
 
 describe("randomInt", () => {
   it("should generate a random integer within the specified range", () => {
@@ -45,3 +45,49 @@ describe("encodePosixPath", () => {
     expect(result).toBe("SDXL/realvisxlV40");
   });
 });
+
+describe("toBlob", () => {
+  it("should wrap binary content into a Blob", async () => {
+    const bytes = new Uint8Array([1, 2, 3, 4]);
+    const view = bytes.subarray(1, 3);
+    expect(await toBlob(bytes.buffer).arrayBuffer()).toEqual(bytes.buffer);
+    expect(new Uint8Array(await toBlob(view).arrayBuffer())).toEqual(new Uint8Array([2, 3]));
+    const blob = new Blob(["a"]);
+    expect(toBlob(blob)).toBe(blob);
+  });
+});
+
+describe("mapConcurrent", () => {
+  it("should keep the order and respect the limit", async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const result = await mapConcurrent([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      running--;
+      return index;
+    });
+    expect(result).toEqual([0, 1, 2, 3, 4]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it("should discard the results of a failed map, even those finishing after the failure", async () => {
+    const discard = jest.fn();
+    const map = mapConcurrent(
+      [0, 10, 30, 20],
+      4,
+      async (ms, index) => {
+        await new Promise((resolve) => setTimeout(resolve, ms));
+        if (index === 1) throw new Error("failed");
+        return index;
+      },
+      discard
+    );
+
+    await expect(map).rejects.toThrow("failed");
+    expect(discard.mock.calls).toEqual([[0]]);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(discard.mock.calls).toEqual([[0], [3], [2]]);
+  });
+});
@@ -0,0 +1,83 @@
+import { NodeTimingHistory, WorkflowProgressTracker } from "../src/workflow-progress";
+import { describe, it, expect } from "bun:test";
+
+const workflow = {
+  "1": { class_type: "CheckpointLoaderSimple", inputs: {}, _meta: { title: "Load Checkpoint" } },
+  "2": { class_type: "KSampler", inputs: { steps: 4, model: ["1", 0] }, _meta: { title: "Base" } },
+  "3": {
+    class_type: "KSampler",
+    inputs: { steps: 4, model: ["1", 0], latent_image: ["2", 0] },
+    _meta: { title: "Refiner" }
+  },
+  "4": { class_type: "SaveImage", inputs: { images: ["3", 0] }, _meta: { title: "Save Image" } }
+};
+
+const setup = (history = new NodeTimingHistory()) => {
+  let now = 0;
+  const tracker = new WorkflowProgressTracker(workflow, history, () => now);
+  return { tracker, history, tick: (ms: number) => (now += ms) };
+};
+
+describe("WorkflowProgressTracker", () => {
+  it("should report the progress of the whole workflow without going back on each sampler", () => {
+    const { tracker, tick } = setup();
+    expect(tracker.snapshot).toMatchObject({ progress: 0, eta: undefined, totalNodes: 4, completedNodes: 0 });
+
+    tracker.start();
+    tracker.executing("1");
+    tick(100);
+    tracker.executing("2");
+    tick(1000);
+    tracker.progress("2", 2, 4);
+    const first = tracker.snapshot;
+    // The loader took 100ms, the samplers are estimated at 1s per step until measured
+    expect(first.progress).toBeCloseTo(2100 / 8300);
+    // Half of the first sampler took 1s, then the second sampler and the save are left
+    expect(first.eta).toBe(1000 + 4000 + 200);
+    expect(first).toMatchObject({ node: "2", completedNodes: 1, elapsed: 1100 });
+
+    tick(1000);
+    tracker.progress("2", 4, 4);
+    tracker.executing("3");
+    const second = tracker.snapshot;
+    // The first sampler measured 500ms per step
+    expect(second.progress).toBeCloseTo(2100 / 4300);
+    expect(second.progress).toBeGreaterThan(first.progress);
+    expect(second.eta).toBe(2000 + 200);
+
+    tracker.finish();
+    expect(tracker.snapshot).toMatchObject({ progress: 1, eta: 0, completedNodes: 3 });
+  });
+
+  it("should leave the cached nodes out", () => {
+    const { tracker } = setup();
+    tracker.cached(["1", "2"]);
+    expect(tracker.snapshot.totalNodes).toBe(2);
+  });
+
+  it("should only count the output nodes and their ancestors once the node definitions are known", () => {
+    const tracker = new WorkflowProgressTracker({
+      ...workflow,
+      "5": { class_type: "VAELoader", inputs: {}, _meta: { title: "Unused VAE" } },
+      "6": { class_type: "PreviewImage", inputs: { images: ["3", 0] }, _meta: { title: "Preview" } }
+    });
+    expect(tracker.snapshot.totalNodes).toBe(6);
+
+    const def = (output_node: boolean) => ({ output_node }) as any;
+    tracker.useNodeDefs({ VAELoader: def(false), SaveImage: def(true), KSampler: def(false) } as any);
+    // The preview node type is missing from the definitions, it is still counted
+    expect(tracker.snapshot.totalNodes).toBe(5);
+  });
+
+  it("should estimate the next jobs from the timing history", () => {
+    const history = new NodeTimingHistory();
+    history.record("KSampler", 2000, 4);
+    history.record("CheckpointLoaderSimple", 300);
+    expect(history.estimate("KSampler", 10)).toBe(5000);
+    expect(history.estimate("CheckpointLoaderSimple")).toBe(300);
+
+    const { tracker } = setup(history);
+    tracker.start();
+    expect(tracker.snapshot.eta).toBe(300 + 2000 + 2000 + 200);
+  });
+});